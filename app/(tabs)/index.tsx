@@ -1,46 +1,116 @@
 import React, { useState, useEffect } from 'react';
-import { StyleSheet, TouchableOpacity, Platform, View } from 'react-native';
+import { StyleSheet, TouchableOpacity, Platform, ScrollView, View, Alert } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 
+import { LevelMeter } from '@/components/LevelMeter';
+import { ConversionSettings } from '@/components/ConversionSettings';
+import { PresetPicker } from '@/components/PresetPicker';
 import { RecordingTimer } from '@/components/RecordingTimer';
+import { SegmentSettings } from '@/components/SegmentSettings';
+import { SilenceTrimSettings } from '@/components/SilenceTrimSettings';
+import { TextPromptModal } from '@/components/TextPromptModal';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { VoiceActivationSettings } from '@/components/VoiceActivationSettings';
+import { Waveform } from '@/components/Waveform';
 import { IconSymbol } from '@/components/ui/IconSymbol';
-import { Colors } from '@/constants/Colors';
-import { useColorScheme } from '@/hooks/useColorScheme';
-import AudioService from '@/services/AudioService';
+import { resolveRecordingPreset } from '@/constants/RecordingPresets';
+import { useAudioRecorder } from '@/hooks/useAudioRecorder';
+import { useRecordingRecovery } from '@/hooks/useRecordingRecovery';
+import { useSettings } from '@/hooks/useSettings';
 
 export default function RecordScreen() {
-  const [isRecording, setIsRecording] = useState(false);
-  const [permissionGranted, setPermissionGranted] = useState(false);
-  const theme = useColorScheme() ?? 'light';
+  const {
+    isRecording,
+    isPaused,
+    recordingDuration,
+    isArmed,
+    isMonitoring,
+    permissionGranted,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    armRecording,
+    markRecording,
+    labelBookmark,
+    recordings,
+    meteringDb,
+    levels,
+  } = useAudioRecorder();
+  const { settings, updateSettings } = useSettings();
+  const [labellingId, setLabellingId] = useState<string | null>(null);
+  const [markCount, setMarkCount] = useState(0);
+  useRecordingRecovery();
+
+  // Voice activation can stop the recording on its own, so follow the state rather than the button
+  useEffect(() => {
+    if (!isRecording) {
+      setMarkCount(0);
+    }
+  }, [isRecording]);
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  
-  useEffect(() => {
-    // Check for recording permissions when component mounts
-    AudioService.requestPermission().then(granted => {
-      setPermissionGranted(granted);
-    });
-  }, []);
+  // Armed counts as active even while waiting for voice, so the button offers to stop
+  const isActive = isRecording || isArmed;
   
   const handleRecordPress = async () => {
-    if (isRecording) {
-      setIsRecording(false);
-      const recording = await AudioService.stopRecording();
-      if (recording) {
-        console.log('Recording saved:', recording.filename);
+    if (isActive) {
+      const stopped = await stopRecording();
+      if (stopped) {
+        console.log('Recording saved:', stopped.recording.filename);
+      }
+      if (stopped && stopped.savedBytes > 0) {
+        Alert.alert('Recording Converted', `${(stopped.savedBytes / (1024 * 1024)).toFixed(1)} MB of space saved.`);
       }
+    } else if (settings.voiceActivated) {
+      await armRecording();
+    } else {
+      await startRecording();
+    }
+  };
+
+  const getInstructions = () => {
+    if (isPaused) return 'Recording paused';
+    if (isRecording) return isArmed ? 'Recording, stops after silence...' : 'Recording in progress...';
+    if (isMonitoring) return 'Waiting for voice...';
+    return settings.voiceActivated
+      ? 'Tap the button below to start listening for voice'
+      : 'Tap the button below to start recording';
+  };
+
+  // Drop a mark straight away so it lands on the moment of the tap, then ask for a label
+  const handleMarkPress = () => {
+    const bookmark = markRecording();
+    if (bookmark) {
+      setMarkCount(count => count + 1);
+      setLabellingId(bookmark.id);
+    }
+  };
+
+  const handleLabel = async (label: string) => {
+    const bookmarkId = labellingId;
+    setLabellingId(null);
+    if (bookmarkId && label.trim()) {
+      await labelBookmark(bookmarkId, label);
+    }
+  };
+
+  const handlePausePress = async () => {
+    if (isPaused) {
+      await resumeRecording();
     } else {
-      const started = await AudioService.startRecording();
-      setIsRecording(started);
+      await pauseRecording();
     }
   };
   
   return (
     <ThemedView style={styles.container}>
-      <View style={[styles.content, { paddingTop: Math.max(insets.top, 20) }]}>
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={[styles.content, { paddingTop: Math.max(insets.top, 20) }]}
+      >
         <ThemedText type="title" style={styles.heading}>
           Voice Recorder
         </ThemedText>
@@ -53,45 +123,114 @@ export default function RecordScreen() {
           </View>
         ) : (
           <>
-            <RecordingTimer isRecording={isRecording} />
+            <RecordingTimer durationMillis={recordingDuration} isPaused={isPaused} />
             
             <ThemedText style={styles.instructions}>
-              {isRecording
-                ? 'Recording in progress...'
-                : 'Tap the button below to start recording'}
+              {getInstructions()}
             </ThemedText>
+
+            {isRecording || isMonitoring ? (
+              <View style={styles.meters}>
+                <Waveform levels={levels} maxBars={80} height={60} />
+                <LevelMeter db={isPaused ? null : meteringDb} />
+              </View>
+            ) : !isActive && (
+              <>
+                <PresetPicker
+                  selected={settings.recordingPreset}
+                  onSelect={recordingPreset => updateSettings({ recordingPreset })}
+                />
+                <VoiceActivationSettings settings={settings} onChange={updateSettings} />
+                <SegmentSettings settings={settings} onChange={updateSettings} />
+                {/* Only WAV recordings can be cut or converted */}
+                {resolveRecordingPreset(settings.recordingPreset).format.container === 'wav' && (
+                  <>
+                    <SilenceTrimSettings settings={settings} onChange={updateSettings} />
+                    <ConversionSettings settings={settings} onChange={updateSettings} />
+                  </>
+                )}
+              </>
+            )}
           </>
         )}
-      </View>
+      </ScrollView>
 
       <View style={[styles.buttonContainer, { paddingBottom: Math.max(insets.bottom, 20) }]}>
-        <TouchableOpacity
-          style={[
-            styles.recordButton,
-            isRecording ? styles.stopButton : styles.startButton,
-          ]}
-          onPress={handleRecordPress}
-          activeOpacity={0.8}
-          disabled={!permissionGranted}
-        >
-          <IconSymbol
-            name={isRecording ? 'stop.fill' : 'mic.fill'}
-            color="white"
-            size={40}
-          />
-        </TouchableOpacity>
+        <View style={styles.buttonRow}>
+          {isRecording && !isArmed && (
+            <View style={styles.secondaryControl}>
+              <TouchableOpacity
+                style={styles.pauseButton}
+                onPress={handlePausePress}
+                activeOpacity={0.8}
+              >
+                <IconSymbol
+                  name={isPaused ? 'mic.fill' : 'pause.fill'}
+                  color="white"
+                  size={28}
+                />
+              </TouchableOpacity>
+              <ThemedText style={styles.buttonText}>
+                {isPaused ? 'Resume' : 'Pause'}
+              </ThemedText>
+            </View>
+          )}
 
-        <ThemedText style={styles.buttonText}>
-          {isRecording ? 'Stop' : 'Record'}
-        </ThemedText>
+          <View style={styles.primaryControl}>
+            <TouchableOpacity
+              style={[
+                styles.recordButton,
+                isActive ? styles.stopButton : styles.startButton,
+              ]}
+              onPress={handleRecordPress}
+              activeOpacity={0.8}
+              disabled={!permissionGranted}
+            >
+              <IconSymbol
+                name={isActive ? 'stop.fill' : 'mic.fill'}
+                color="white"
+                size={40}
+              />
+            </TouchableOpacity>
+
+            <ThemedText style={styles.buttonText}>
+              {isActive ? 'Stop' : settings.voiceActivated ? 'Listen' : 'Record'}
+            </ThemedText>
+          </View>
+
+          {isRecording && (
+            <View style={styles.trailingControl}>
+              <TouchableOpacity
+                style={styles.markButton}
+                onPress={handleMarkPress}
+                activeOpacity={0.8}
+              >
+                <IconSymbol name="bookmark.fill" color="white" size={26} />
+              </TouchableOpacity>
+              <ThemedText style={styles.buttonText}>
+                {markCount > 0 ? `Mark (${markCount})` : 'Mark'}
+              </ThemedText>
+            </View>
+          )}
+        </View>
       </View>
 
-      {!isRecording && (
+      <TextPromptModal
+        visible={labellingId !== null}
+        title="Label Mark"
+        placeholder="Optional label"
+        onSubmit={handleLabel}
+        onCancel={() => setLabellingId(null)}
+      />
+
+      {!isActive && (
         <TouchableOpacity
           style={styles.viewRecordingsButton}
           onPress={() => router.push('/(tabs)/recordings')}
         >
-          <ThemedText style={styles.viewRecordingsText}>View Recordings</ThemedText>
+          <ThemedText style={styles.viewRecordingsText}>
+            View Recordings{recordings.length > 0 ? ` (${recordings.length})` : ''}
+          </ThemedText>
         </TouchableOpacity>
       )}
     </ThemedView>
@@ -103,6 +242,9 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: 'space-between',
   },
+  scroll: {
+    flex: 1,
+  },
   content: {
     alignItems: 'center',
     paddingHorizontal: 20,
@@ -111,6 +253,9 @@ const styles = StyleSheet.create({
   heading: {
     marginBottom: 20,
   },
+  meters: {
+    width: '100%',
+  },
   instructions: {
     textAlign: 'center',
     marginVertical: 20,
@@ -119,6 +264,39 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingBottom: Platform.OS === 'ios' ? 100 : 40,
   },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  primaryControl: {
+    alignItems: 'center',
+  },
+  secondaryControl: {
+    alignItems: 'center',
+    marginRight: 30,
+  },
+  trailingControl: {
+    alignItems: 'center',
+    marginLeft: 30,
+  },
+  markButton: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginVertical: 15,
+    backgroundColor: '#8E44AD',
+  },
+  pauseButton: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginVertical: 15,
+    backgroundColor: '#F39C12',
+  },
   recordButton: {
     width: 80,
     height: 80,
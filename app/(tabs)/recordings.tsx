@@ -1,74 +1,394 @@
-import React, { useState, useCallback } from 'react';
-import { StyleSheet, FlatList, TouchableOpacity, Alert, View } from 'react-native';
-import { useFocusEffect } from 'expo-router';
+import React, { useState, useMemo } from 'react';
+import { StyleSheet, SectionList, TouchableOpacity, Alert, View } from 'react-native';
+import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { LoopControls } from '@/components/LoopControls';
+import { NormalizationTargetPicker } from '@/components/NormalizationTargetPicker';
+import { PlaybackProgressBar } from '@/components/PlaybackProgressBar';
+import { PlaybackRatePicker } from '@/components/PlaybackRatePicker';
+import { Stepper } from '@/components/Stepper';
+import { TextPromptModal } from '@/components/TextPromptModal';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { UpNextPanel } from '@/components/UpNextPanel';
+import { Waveform } from '@/components/Waveform';
 import { Colors } from '@/constants/Colors';
+import { formatNormalizationTarget } from '@/constants/Loudness';
+import { formatPlaybackRate } from '@/constants/PlaybackRates';
+import { describeRecordingFormat } from '@/constants/RecordingPresets';
+import { useAudioPlayer } from '@/hooks/useAudioPlayer';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import AudioService, { AudioFile } from '@/services/AudioService';
+import { useRecordings } from '@/hooks/useRecordings';
+import { useSettings } from '@/hooks/useSettings';
+import AudioService, { AudioFile, Bookmark } from '@/services/AudioService';
+import RecordingEditor, { EditSaveMode, MAX_DECODE_BYTES } from '@/services/RecordingEditor';
+import RecordingExporter from '@/services/RecordingExporter';
 import { IconSymbol } from '@/components/ui/IconSymbol';
+import { mergeTarget } from '@/utils/audioEdit';
+import { listenedFraction, resumePositionMillis } from '@/utils/playbackProgress';
+import {
+  DateSection,
+  groupBookmarks,
+  GroupBookmark,
+  groupByDate,
+  GroupLoop,
+  groupLoops,
+  groupRecordings,
+  locateInGroup,
+  RecordingGroup,
+} from '@/utils/recordingGroups';
+
+// How far the skip buttons jump
+const SKIP_MILLIS = 15000;
+
+// Crossfades are picked in half seconds
+const CROSSFADE_STEP_MILLIS = 500;
+const MAX_CROSSFADE_MILLIS = 5000;
+
+// Why some of the selected recordings can't go through a batch action, null when all of them can
+function editBlockedMessage(segments: AudioFile[], action: string) {
+  const blockers = segments.map(segment => RecordingEditor.editBlocker(segment));
+  if (blockers.includes('format')) {
+    return `Only WAV recordings can be ${action}`;
+  }
+  if (blockers.includes('size')) {
+    return `Recordings over ${MAX_DECODE_BYTES / (1024 * 1024)} MB are too large to be ${action}`;
+  }
+  return null;
+}
 
 export default function RecordingsScreen() {
-  const [recordings, setRecordings] = useState<AudioFile[]>([]);
-  const [playingId, setPlayingId] = useState<string | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const { recordings } = useRecordings();
+  const {
+    playSession,
+    playQueue,
+    enqueue,
+    removeFromQueue,
+    playNext,
+    playPrevious,
+    setRepeatMode,
+    setShuffle,
+    queue,
+    upNext,
+    repeatMode,
+    shuffle,
+    loop,
+    setLoopStart,
+    setLoopEnd,
+    setLoop,
+    setLoopRepeats,
+    clearLoop,
+    sleepTimer,
+    setSleepTimer,
+    pauseSound,
+    resumeSound,
+    stopSound,
+    seekTo,
+    skip,
+    setRate,
+    rate,
+    formatTime,
+    isPlaying,
+    playingId,
+    position,
+    duration,
+    error: playbackError,
+  } = useAudioPlayer();
   const [error, setError] = useState<string | null>(null);
+  const { settings, updateSettings } = useSettings();
+  const [renaming, setRenaming] = useState<RecordingGroup | null>(null);
+  const [showRates, setShowRates] = useState(false);
+  const [showLoop, setShowLoop] = useState(false);
+  const [savingLoop, setSavingLoop] = useState<RecordingGroup | null>(null);
+  const [labelling, setLabelling] = useState<Pick<Bookmark, 'id' | 'label'> | null>(null);
+  // Recordings picked for a batch action, in the order they were picked
+  const [selection, setSelection] = useState<string[] | null>(null);
+  const [batchStatus, setBatchStatus] = useState<string | null>(null);
   const theme = useColorScheme() ?? 'light';
   const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const sections = useMemo(() => groupByDate(groupRecordings(recordings)), [recordings]);
+  const nowPlaying = queue.find(item => item.id === playingId) ?? null;
   
-  const loadRecordings = async () => {
-    const files = await AudioService.getRecordings();
-    setRecordings(files);
-    setError(null);
+  const handlePlayPause = async (item: RecordingGroup) => {
+    if (playingId === item.id) {
+      // Keep the loaded item so playback picks up where it was paused
+      await (isPlaying ? pauseSound() : resumeSound());
+    } else {
+      // Play this item, all of its segments in order for a session
+      setError(null);
+      await playSession(item);
+    }
   };
-  
-  useFocusEffect(
-    useCallback(() => {
-      console.log('Loading recordings on focus');
-      loadRecordings();
-      return () => {
-        // Stop any playback when leaving the screen
-        AudioService.stopPlayback();
-        setPlayingId(null);
-        setIsPlaying(false);
-      };
-    }, [])
-  );
 
-  const handlePlayPause = async (item: AudioFile) => {
-    if (playingId === item.id && isPlaying) {
-      // Currently playing this item, so pause it
-      await AudioService.stopPlayback();
-      setIsPlaying(false);
+  // Mark the current playback position, then offer to label it
+  const handleAddBookmark = async (item: RecordingGroup) => {
+    const target = locateInGroup(item, position);
+    const bookmark = await AudioService.addBookmark(target.recording.id, target.positionMillis);
+    if (bookmark) {
+      setLabelling(bookmark);
     } else {
-      // Play this item
-      try {
-        setError(null);
-        const success = await AudioService.playRecording(item.uri, (status: any) => {
-          if (!status.isLoaded) return;
-          
-          if (status.didJustFinish) {
-            setIsPlaying(false);
-            setPlayingId(null);
-          }
-        });
-        
-        if (success) {
-          setPlayingId(item.id);
-          setIsPlaying(true);
-        }
-      } catch (err) {
-        setError(`Failed to play recording: ${err instanceof Error ? err.message : String(err)}`);
+      setError('Failed to add bookmark');
+    }
+  };
+
+  const handleBookmarkPress = async (item: RecordingGroup, bookmark: GroupBookmark) => {
+    if (playingId === item.id) {
+      await seekTo(bookmark.positionMillis);
+    } else {
+      setError(null);
+      await playSession(item, { startMillis: bookmark.positionMillis });
+    }
+  };
+
+  const handleBookmarkLongPress = (bookmark: GroupBookmark) => {
+    Alert.alert(
+      bookmark.label || 'Bookmark',
+      `At ${formatDuration(bookmark.positionMillis)}`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Label',
+          onPress: () => setLabelling(bookmark),
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await AudioService.removeBookmark(bookmark.recordingId, bookmark.id);
+            if (!success) {
+              setError('Failed to delete bookmark');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLabel = async (label: string) => {
+    const bookmark = labelling;
+    setLabelling(null);
+    if (!bookmark || label.trim() === (bookmark.label ?? '')) {
+      return;
+    }
+
+    const success = await AudioService.labelBookmark(bookmark.id, label);
+    if (!success) {
+      setError('Failed to label bookmark');
+    }
+  };
+
+  // Save the speed on every segment so the whole session keeps it
+  const handleRateSelect = async (item: RecordingGroup, newRate: number | undefined) => {
+    await setRate(newRate ?? settings.playbackRate);
+    for (const segment of item.segments) {
+      const success = await AudioService.setPlaybackRate(segment.id, newRate);
+      if (!success) {
+        setError('Failed to save playback speed');
+      }
+    }
+  };
+
+  // The item goes back to following the default, which is now its speed
+  const handleMakeDefaultRate = async (item: RecordingGroup, newRate: number) => {
+    await updateSettings({ playbackRate: newRate });
+    await setRate(newRate);
+    for (const segment of item.segments) {
+      const success = await AudioService.setPlaybackRate(segment.id, undefined);
+      if (!success) {
+        setError('Failed to save playback speed');
+      }
+    }
+  };
+
+  // Loops are stored on the segment where they start, relative to that segment
+  const handleSaveLoop = async (label: string) => {
+    const item = savingLoop;
+    setSavingLoop(null);
+    if (!item || !loop || loop.endMillis === null) {
+      return;
+    }
+
+    const start = locateInGroup(item, loop.startMillis);
+    const segmentOffset = loop.startMillis - start.positionMillis;
+    const saved = await AudioService.saveLoop(
+      start.recording.id,
+      start.positionMillis,
+      loop.endMillis - segmentOffset,
+      label
+    );
+    if (!saved) {
+      setError('Failed to save loop');
+    }
+  };
+
+  const handleDeleteLoop = (saved: GroupLoop) => {
+    Alert.alert(
+      'Delete Loop',
+      `Delete the loop from ${formatTime(saved.startMillis)} to ${formatTime(saved.endMillis)}?`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await AudioService.removeLoop(saved.recordingId, saved.id);
+            if (!success) {
+              setError('Failed to delete loop');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const toggleSelected = (item: RecordingGroup) => {
+    setSelection(order => {
+      if (!order) {
+        return order;
       }
+      return order.includes(item.id) ? order.filter(id => id !== item.id) : [...order, item.id];
+    });
+  };
+
+  // Sessions take part with all of their segments, in order
+  const selectedSegments = () => {
+    const groups = sections.flatMap(section => section.data);
+    return (selection ?? []).flatMap(id => groups.find(group => group.id === id)?.segments ?? []);
+  };
+
+  const handleMerge = () => {
+    const segments = selectedSegments();
+    const blocked = editBlockedMessage(segments, 'merged');
+    if (blocked) {
+      setError(blocked);
+      return;
     }
+
+    const merge = async () => {
+      setBatchStatus('Merging…');
+      setError(null);
+      const merged = await RecordingEditor.mergeRecordings(segments, settings.crossfadeMillis);
+      setBatchStatus(null);
+      if (merged) {
+        setSelection(null);
+      } else {
+        setError('Failed to merge recordings');
+      }
+    };
+
+    const target = mergeTarget(segments);
+    const needsConversion = segments.some(
+      segment => segment.sampleRate !== target.sampleRate || segment.channels !== target.channels
+    );
+    if (!needsConversion) {
+      merge();
+      return;
+    }
+
+    Alert.alert(
+      'Convert and Merge',
+      `These recordings don't share the same sample rate and channels. They will be converted to ${describeRecordingFormat({ ...segments[0].format, ...target })} before joining.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Merge',
+          onPress: merge,
+        },
+      ]
+    );
   };
 
-  const handleDeleteRecording = (item: AudioFile) => {
+  const handleNormalize = () => {
+    const segments = selectedSegments();
+    const blocked = editBlockedMessage(segments, 'normalized');
+    if (blocked) {
+      setError(blocked);
+      return;
+    }
+
+    const normalize = async (mode: EditSaveMode) => {
+      setBatchStatus(`Normalizing 0/${segments.length}…`);
+      setError(null);
+      const succeeded = await RecordingEditor.normalizeRecordings(
+        segments,
+        settings.normalizationTarget,
+        mode,
+        done => setBatchStatus(`Normalizing ${done}/${segments.length}…`)
+      );
+      setBatchStatus(null);
+      if (succeeded === segments.length) {
+        setSelection(null);
+      } else {
+        setError(`Failed to normalize ${segments.length - succeeded} of ${segments.length} recordings`);
+      }
+    };
+
+    Alert.alert(
+      'Normalize Recordings',
+      `Bring ${segments.length === 1 ? 'this recording' : `these ${segments.length} recordings`} to ${formatNormalizationTarget(settings.normalizationTarget)}?`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Save Copies',
+          onPress: () => normalize('copy'),
+        },
+        {
+          text: 'Replace Originals',
+          style: 'destructive',
+          onPress: () => normalize('replace'),
+        },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    const segments = selectedSegments();
+    const blocked = editBlockedMessage(segments, 'exported as FLAC');
+    if (blocked) {
+      setError(blocked);
+      return;
+    }
+
+    setBatchStatus(`Exporting 0/${segments.length}…`);
+    setError(null);
+    const exported = await RecordingExporter.exportRecordingsFlac(segments, settings.flacLevel, done =>
+      setBatchStatus(`Exporting ${done}/${segments.length}…`)
+    );
+    setBatchStatus(null);
+
+    if (exported.length < segments.length) {
+      setError(`Failed to export ${segments.length - exported.length} of ${segments.length} recordings`);
+      return;
+    }
+    setSelection(null);
+    const exportedBytes = exported.reduce((total, file) => total + file.size, 0);
+    const originalBytes = segments.reduce((total, segment) => total + segment.size, 0);
+    Alert.alert(
+      'Export Finished',
+      `${exported.length === 1 ? '1 FLAC file' : `${exported.length} FLAC files`} saved to the exports folder, ${(exportedBytes / (1024 * 1024)).toFixed(1)} MB instead of ${(originalBytes / (1024 * 1024)).toFixed(1)} MB.`
+    );
+  };
+
+  const handleDeleteRecording = (item: RecordingGroup) => {
     Alert.alert(
       'Delete Recording',
-      'Are you sure you want to delete this recording?',
+      item.segments.length > 1
+        ? `Are you sure you want to delete this recording and all ${item.segments.length} parts?`
+        : 'Are you sure you want to delete this recording?',
       [
         {
           text: 'Cancel',
@@ -79,13 +399,13 @@ export default function RecordingsScreen() {
           style: 'destructive',
           onPress: async () => {
             if (playingId === item.id) {
-              await AudioService.stopPlayback();
-              setPlayingId(null);
-              setIsPlaying(false);
+              await stopSound();
             }
-            const success = await AudioService.deleteRecording(item.uri);
-            if (success) {
-              loadRecordings();
+            for (const segment of item.segments) {
+              const success = await AudioService.deleteRecording(segment);
+              if (!success) {
+                setError('Failed to delete recording');
+              }
             }
           },
         },
@@ -93,6 +413,23 @@ export default function RecordingsScreen() {
     );
   };
 
+  const handleRename = async (title: string) => {
+    const item = renaming;
+    setRenaming(null);
+    if (!item || !title.trim() || title.trim() === item.title) {
+      return;
+    }
+
+    // Segments of a session keep their part numbers
+    for (const segment of item.segments) {
+      const segmentTitle = segment.session ? `${title.trim()} (part ${segment.session.index + 1})` : title;
+      const success = await AudioService.renameRecording(segment.id, segmentTitle);
+      if (!success) {
+        setError('Failed to rename recording');
+      }
+    }
+  };
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], {
       hour: '2-digit',
@@ -100,8 +437,42 @@ export default function RecordingsScreen() {
     });
   };
 
-  const renderItem = ({ item }: { item: AudioFile }) => {
-    const isCurrentlyPlaying = isPlaying && playingId === item.id;
+  const formatDuration = (millis: number) => {
+    const totalSeconds = Math.round(millis / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const formatDetails = (item: RecordingGroup) => {
+    const details = [
+      formatDuration(item.duration),
+      `${(item.size / (1024 * 1024)).toFixed(1)} MB`,
+      describeRecordingFormat(item.segments[0].format),
+    ];
+    if (item.segments.length > 1) {
+      details.push(`${item.segments.length} parts`);
+    }
+    return details.join(' • ');
+  };
+
+  const renderSectionHeader = ({ section }: { section: DateSection }) => (
+    <View style={styles.sectionHeader}>
+      <ThemedText type="defaultSemiBold">{section.title}</ThemedText>
+      <TouchableOpacity onPress={() => playQueue(section.data)}>
+        <ThemedText type="link" style={styles.playAll}>Play all</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: RecordingGroup }) => {
+    const waveform = item.segments.flatMap(segment => segment.waveform ?? []);
+    const bookmarks = groupBookmarks(item);
+    const isLoaded = playingId === item.id;
+    const isCurrentlyPlaying = isPlaying && isLoaded;
+    const resumeAt = resumePositionMillis(item.segments);
+    const listened = listenedFraction(item.segments);
+    const selectedPosition = selection?.indexOf(item.id) ?? -1;
     
     return (
       <ThemedView 
@@ -112,26 +483,169 @@ export default function RecordingsScreen() {
             borderWidth: 1,
           }
         ]}>
+        {selection ? (
+          <TouchableOpacity
+            style={[
+              styles.playButton,
+              selectedPosition !== -1 && { backgroundColor: Colors[theme].tint },
+            ]}
+            onPress={() => toggleSelected(item)}
+          >
+            {selectedPosition !== -1 && (
+              <ThemedText type="defaultSemiBold" style={{ color: Colors[theme].background }}>
+                {selectedPosition + 1}
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.playButton}
+            onPress={() => handlePlayPause(item)}
+          >
+            <IconSymbol
+              name={isCurrentlyPlaying ? 'pause.fill' : 'play.fill'}
+              size={24}
+              color={Colors[theme].tint}
+            />
+          </TouchableOpacity>
+        )}
+        
         <TouchableOpacity
-          style={styles.playButton}
-          onPress={() => handlePlayPause(item)}
+          style={styles.recordingInfo}
+          onPress={selection ? () => toggleSelected(item) : undefined}
+          onLongPress={selection ? undefined : () => setRenaming(item)}
+          activeOpacity={0.7}
         >
-          <IconSymbol
-            name={isCurrentlyPlaying ? 'pause.fill' : 'play.fill'}
-            size={24}
-            color={Colors[theme].tint}
-          />
-        </TouchableOpacity>
-        
-        <View style={styles.recordingInfo}>
-          <ThemedText type="defaultSemiBold">
-            {item.filename}
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            {item.title}
           </ThemedText>
           
           <ThemedText>
             Created on {formatDate(item.createdAt)}
           </ThemedText>
-        </View>
+
+          <ThemedText style={styles.recordingDetails}>
+            {formatDetails(item)}
+          </ThemedText>
+
+          {!isLoaded && resumeAt > 0 && (
+            <ThemedText style={[styles.resumeHint, { color: Colors[theme].tint }]}>
+              Continue from {formatTime(resumeAt)}
+            </ThemedText>
+          )}
+
+          {listened > 0 && (
+            <View style={[styles.listenedTrack, { backgroundColor: Colors[theme].icon }]}>
+              <View style={[styles.listenedFill, { width: `${listened * 100}%`, backgroundColor: Colors[theme].tint }]} />
+            </View>
+          )}
+
+          {waveform.length > 0 && (
+            <Waveform levels={waveform} height={24} style={styles.waveform} />
+          )}
+
+          {(isLoaded || bookmarks.length > 0) && (
+            <PlaybackProgressBar
+              positionMillis={isLoaded ? position : 0}
+              durationMillis={isLoaded && duration > 0 ? duration : item.duration}
+              bookmarks={bookmarks}
+              onBookmarkPress={bookmark => handleBookmarkPress(item, bookmark)}
+              onBookmarkLongPress={handleBookmarkLongPress}
+              onSeek={isLoaded ? seekTo : undefined}
+              loop={isLoaded ? loop : null}
+              style={styles.progress}
+            />
+          )}
+
+          {isLoaded && (
+            <View style={styles.transport}>
+              <TouchableOpacity style={styles.skipButton} onPress={() => skip(-SKIP_MILLIS)}>
+                <IconSymbol name="gobackward.15" size={20} color={Colors[theme].tint} />
+              </TouchableOpacity>
+              <ThemedText style={styles.time}>{formatTime(position)}</ThemedText>
+              <ThemedText style={styles.time}>-{formatTime(Math.max(0, duration - position))}</ThemedText>
+              <TouchableOpacity style={styles.skipButton} onPress={() => skip(SKIP_MILLIS)}>
+                <IconSymbol name="goforward.15" size={20} color={Colors[theme].tint} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.rateButton} onPress={() => setShowRates(shown => !shown)}>
+                <ThemedText type="defaultSemiBold" style={[styles.rateText, { color: Colors[theme].tint }]}>
+                  {formatPlaybackRate(rate)}
+                </ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.rateButton} onPress={() => setShowLoop(shown => !shown)}>
+                <ThemedText
+                  type="defaultSemiBold"
+                  style={[styles.rateText, { color: loop || showLoop ? Colors[theme].tint : Colors[theme].icon }]}
+                >
+                  A-B
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {isLoaded && showLoop && (
+            <LoopControls
+              loop={loop}
+              savedLoops={groupLoops(item)}
+              formatTime={formatTime}
+              onSetStart={setLoopStart}
+              onSetEnd={setLoopEnd}
+              onRepeatsChange={setLoopRepeats}
+              onClear={clearLoop}
+              onSave={() => setSavingLoop(item)}
+              onSelectSaved={saved => setLoop(saved.startMillis, saved.endMillis)}
+              onDeleteSaved={handleDeleteLoop}
+            />
+          )}
+
+          {isLoaded && showRates && (
+            <PlaybackRatePicker
+              rate={item.segments[0].playbackRate}
+              defaultRate={settings.playbackRate}
+              onSelect={newRate => handleRateSelect(item, newRate)}
+              onMakeDefault={newRate => handleMakeDefaultRate(item, newRate)}
+            />
+          )}
+        </TouchableOpacity>
+
+        {isLoaded && (
+          <TouchableOpacity
+            style={styles.bookmarkButton}
+            onPress={() => handleAddBookmark(item)}
+          >
+            <IconSymbol
+              name="bookmark.fill"
+              size={22}
+              color={Colors[theme].tint}
+            />
+          </TouchableOpacity>
+        )}
+
+        {!isLoaded && (
+          <TouchableOpacity
+            style={styles.queueButton}
+            onPress={() => enqueue([item])}
+          >
+            <IconSymbol
+              name="text.badge.plus"
+              size={22}
+              color={queue.some(queued => queued.id === item.id) ? Colors[theme].tint : Colors[theme].icon}
+            />
+          </TouchableOpacity>
+        )}
+
+        {item.segments.length === 1 && (
+          <TouchableOpacity
+            style={styles.editButton}
+            onPress={() => router.push({ pathname: '/recording/[id]', params: { id: item.segments[0].id } })}
+          >
+            <IconSymbol
+              name="scissors"
+              size={22}
+              color={Colors[theme].icon}
+            />
+          </TouchableOpacity>
+        )}
         
         <TouchableOpacity
           style={styles.deleteButton}
@@ -147,24 +661,43 @@ export default function RecordingsScreen() {
     );
   };
 
+  const renderBatchButton = (label: string, onPress: () => void, disabled: boolean) => (
+    <TouchableOpacity
+      style={[styles.batchButton, { backgroundColor: Colors[theme].tint }, disabled && styles.disabled]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <ThemedText type="defaultSemiBold" style={{ color: Colors[theme].background }}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
   return (
     <ThemedView style={styles.container}>
       <View style={[styles.header, { paddingTop: Math.max(insets.top, 20) }]}>
         <ThemedText type="title">Recordings</ThemedText>
+        {sections.length > 0 && (
+          <TouchableOpacity onPress={() => setSelection(order => (order ? null : []))}>
+            <ThemedText type="link">{selection ? 'Cancel' : 'Select'}</ThemedText>
+          </TouchableOpacity>
+        )}
       </View>
       
       {/* Error message display */}
-      {error && (
+      {(error || playbackError) && (
         <ThemedView style={styles.errorContainer}>
-          <ThemedText style={styles.errorText}>{error}</ThemedText>
+          <ThemedText style={styles.errorText}>{error ?? playbackError}</ThemedText>
         </ThemedView>
       )}
       
-      {recordings.length > 0 ? (
-        <FlatList
-          data={recordings}
+      {sections.length > 0 ? (
+        <SectionList
+          sections={sections}
           keyExtractor={(item) => item.id}
           renderItem={renderItem}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled={false}
           contentContainerStyle={styles.listContent}
         />
       ) : (
@@ -173,6 +706,80 @@ export default function RecordingsScreen() {
           <ThemedText>Your recordings will appear here</ThemedText>
         </View>
       )}
+
+      {selection && (
+        <ThemedView style={[styles.selectionBar, { borderTopColor: Colors[theme].icon }]}>
+          <ThemedText style={styles.selectionHint}>
+            {batchStatus ??
+              (selection.length === 0
+                ? 'Pick recordings to normalize, or in the order to join them'
+                : `${selection.length} recording${selection.length === 1 ? '' : 's'} picked`)}
+          </ThemedText>
+          <NormalizationTargetPicker
+            target={settings.normalizationTarget}
+            onSelect={target => updateSettings({ normalizationTarget: target })}
+          />
+          <Stepper
+            label="Crossfade when merging"
+            value={settings.crossfadeMillis > 0 ? `${(settings.crossfadeMillis / 1000).toFixed(1)} s` : 'Off'}
+            onDecrease={() =>
+              updateSettings({ crossfadeMillis: Math.max(0, settings.crossfadeMillis - CROSSFADE_STEP_MILLIS) })
+            }
+            onIncrease={() =>
+              updateSettings({
+                crossfadeMillis: Math.min(MAX_CROSSFADE_MILLIS, settings.crossfadeMillis + CROSSFADE_STEP_MILLIS),
+              })
+            }
+          />
+          <View style={styles.selectionButtons}>
+            {renderBatchButton('Normalize', handleNormalize, selection.length === 0 || batchStatus !== null)}
+            {renderBatchButton('Merge', handleMerge, selection.length < 2 || batchStatus !== null)}
+            {renderBatchButton('Export WAV as FLAC', handleExport, selection.length === 0 || batchStatus !== null)}
+          </View>
+        </ThemedView>
+      )}
+
+      {!selection && queue.length > 0 && (
+        <UpNextPanel
+          nowPlaying={nowPlaying}
+          upNext={upNext}
+          repeatMode={repeatMode}
+          shuffle={shuffle}
+          onNext={playNext}
+          onPrevious={playPrevious}
+          onRemove={removeFromQueue}
+          onRepeatModeChange={setRepeatMode}
+          onShuffleChange={setShuffle}
+          sleepTimer={sleepTimer}
+          onSleepTimerChange={setSleepTimer}
+          formatTime={formatTime}
+        />
+      )}
+
+      <TextPromptModal
+        visible={renaming !== null}
+        title="Rename Recording"
+        initialValue={renaming?.title}
+        onSubmit={handleRename}
+        onCancel={() => setRenaming(null)}
+      />
+
+      <TextPromptModal
+        visible={savingLoop !== null}
+        title="Save Loop"
+        placeholder="Optional label"
+        onSubmit={handleSaveLoop}
+        onCancel={() => setSavingLoop(null)}
+      />
+
+      <TextPromptModal
+        visible={labelling !== null}
+        title="Label Bookmark"
+        initialValue={labelling?.label}
+        placeholder="Optional label"
+        onSubmit={handleLabel}
+        onCancel={() => setLabelling(null)}
+      />
     </ThemedView>
   );
 }
@@ -182,6 +789,9 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     padding: 20,
     paddingBottom: 15,
   },
@@ -189,6 +799,16 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingTop: 5,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 10,
+    paddingBottom: 6,
+  },
+  playAll: {
+    fontSize: 14,
+  },
   recordingItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -213,9 +833,89 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: 15,
   },
+  recordingDetails: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  resumeHint: {
+    fontSize: 14,
+  },
+  // Thin bar showing how much of the recording has been played
+  listenedTrack: {
+    height: 2,
+    marginTop: 4,
+    borderRadius: 1,
+    overflow: 'hidden',
+  },
+  listenedFill: {
+    height: '100%',
+  },
+  waveform: {
+    marginTop: 6,
+  },
+  progress: {
+    marginTop: 6,
+  },
+  transport: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  skipButton: {
+    padding: 6,
+  },
+  time: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+  },
+  rateButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  rateText: {
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  queueButton: {
+    padding: 10,
+  },
+  bookmarkButton: {
+    padding: 10,
+  },
+  editButton: {
+    padding: 10,
+  },
   deleteButton: {
     padding: 10,
   },
+  selectionBar: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  selectionHint: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  selectionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  batchButton: {
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginHorizontal: 6,
+    marginVertical: 3,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -31,6 +31,7 @@ export default function RootLayout() {
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="recording/[id]" options={{ title: 'Edit Recording' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
@@ -0,0 +1,902 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, Share, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+
+import { ConversionPicker } from '@/components/ConversionPicker';
+import { FadeCurvePicker } from '@/components/FadeCurvePicker';
+import { NormalizationTargetPicker } from '@/components/NormalizationTargetPicker';
+import { Stepper } from '@/components/Stepper';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { TrimSelector } from '@/components/TrimSelector';
+import { Colors } from '@/constants/Colors';
+import { formatNormalizationTarget } from '@/constants/Loudness';
+import { describeRecordingFormat } from '@/constants/RecordingPresets';
+import { useAudioPlayer } from '@/hooks/useAudioPlayer';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useRecordingAudio } from '@/hooks/useRecordingAudio';
+import { useRecordings } from '@/hooks/useRecordings';
+import { useSettings } from '@/hooks/useSettings';
+import type { AudioFile, RecordingEdit, RecordingProvenance } from '@/services/AudioService';
+import RecordingEditor, { EditSaveMode, MAX_DECODE_BYTES } from '@/services/RecordingEditor';
+import RecordingExporter from '@/services/RecordingExporter';
+import { silenceTrimOptions } from '@/services/SettingsService';
+import { frameCount, frameToMillis, waveformFromAudio } from '@/utils/audioEdit';
+import { MAX_FLAC_LEVEL, MIN_FLAC_LEVEL } from '@/utils/flac';
+import { LoudnessMeasurement } from '@/utils/loudness';
+import { cleanUpAudio, CleanupOptions, minNoiseSampleMillis } from '@/utils/noiseReduction';
+import { convertsAnything } from '@/utils/resample';
+import { detectSilenceTrim, trimsAnything } from '@/utils/silence';
+import { WavAudio } from '@/utils/wav';
+
+// How far the start and end buttons move a handle
+const NUDGE_MILLIS = 10;
+
+// Finer than the list preview, the handles need something to line up against
+const EDITOR_WAVEFORM_POINTS = 100;
+
+// Shortest selection that can be kept
+const MIN_SELECTION_MILLIS = 100;
+
+// Fade lengths are picked in tenths of a second
+const FADE_STEP_MILLIS = 100;
+const MAX_FADE_MILLIS = 10000;
+
+// Ranges of the clean-up settings; stepping below the lowest turns a step off
+const HIGH_PASS_STEP_HZ = 20;
+const MIN_HIGH_PASS_HZ = 40;
+const MAX_HIGH_PASS_HZ = 300;
+const GATE_STEP_DB = 5;
+const MIN_GATE_DB = -70;
+const MAX_GATE_DB = -30;
+const REDUCTION_STEP_DB = 3;
+const MIN_REDUCTION_DB = 6;
+const MAX_REDUCTION_DB = 30;
+
+const DEFAULT_CLEANUP_OPTIONS: CleanupOptions = {
+  highPassHz: 80,
+  noiseSample: null,
+  gateThresholdDb: null,
+  reductionDb: 12,
+};
+
+const PROVENANCE_LABELS: Record<RecordingProvenance['operation'], string> = {
+  trim: 'Trimmed from',
+  split: 'Split from',
+  merge: 'Merged from',
+  normalize: 'Normalized from',
+  cleanup: 'Cleaned up from',
+  convert: 'Converted from',
+};
+
+// Positions down to the millisecond, since trimming is sample accurate
+function formatPrecise(millis: number) {
+  const rounded = Math.round(millis);
+  const minutes = Math.floor(rounded / 60000);
+  const seconds = Math.floor((rounded % 60000) / 1000);
+  const thousandths = rounded % 1000;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${thousandths.toString().padStart(3, '0')}`;
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatSeconds(millis: number) {
+  return `${(millis / 1000).toFixed(1)} s`;
+}
+
+function describeEdit(edit: RecordingEdit) {
+  switch (edit.type) {
+    case 'trim':
+      return `Trim to ${formatPrecise(edit.startMillis)}–${formatPrecise(edit.endMillis)}`;
+    case 'cut':
+      return `Cut ${formatPrecise(edit.startMillis)}–${formatPrecise(edit.endMillis)}`;
+    case 'gain':
+      return `Gain ${edit.gainDb > 0 ? '+' : ''}${edit.gainDb.toFixed(1)} dB`;
+    case 'fade':
+      return `Fade ${edit.edge} ${formatSeconds(edit.durationMillis)}`;
+    case 'filter':
+      return 'Clean up';
+  }
+}
+
+function describeLoudness(loudness: LoudnessMeasurement | undefined) {
+  if (!loudness) {
+    return 'Not measured yet';
+  }
+  const peak = loudness.peakDb === null ? 'silent' : `peak ${loudness.peakDb} dBFS`;
+  const integrated = loudness.integratedLufs === null ? 'too quiet to measure' : `${loudness.integratedLufs} LUFS`;
+  return `${integrated} • ${peak}`;
+}
+
+// Processing runs on the JS thread, so give the spinner a chance to show before it starts
+function yieldToRender() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+export default function RecordingEditorScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { recordings, isLoading: isLoadingRecordings } = useRecordings();
+  const recording = recordings.find(r => r.id === id) ?? null;
+  const { audio, isLoading: isDecoding, reload } = useRecordingAudio(recording);
+  const { playSession, pauseSound, isPlaying, playingId, position } = useAudioPlayer();
+  const { settings, updateSettings } = useSettings();
+  const [selection, setSelection] = useState({ startMillis: 0, endMillis: 0 });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cleanupOptions, setCleanupOptions] = useState(DEFAULT_CLEANUP_OPTIONS);
+  // Processed audio waiting to be compared with the original and saved
+  const [cleanedUp, setCleanedUp] = useState<{ audio: WavAudio; preview: AudioFile } | null>(null);
+  const theme = useColorScheme() ?? 'light';
+  const router = useRouter();
+
+  const totalMillis = audio ? frameToMillis(audio, frameCount(audio)) : 0;
+  const levels = useMemo(() => (audio ? waveformFromAudio(audio, EDITOR_WAVEFORM_POINTS) : []), [audio]);
+  const isLoaded = recording !== null && playingId === recording.id;
+  const isPreviewLoaded = cleanedUp !== null && playingId === cleanedUp.preview.id;
+  const isTrimmed = selection.startMillis > 0 || selection.endMillis < totalMillis;
+  const editList = recording?.editList;
+  const canUndo = !!editList && editList.applied > 0;
+  const canRedo = !!editList && editList.applied < editList.edits.length;
+  const canConvert = !!recording && convertsAnything(settings.conversion, recording.sampleRate, recording.channels);
+
+  // Start with everything selected, and again after the file was rewritten
+  useEffect(() => {
+    setSelection({ startMillis: 0, endMillis: totalMillis });
+  }, [totalMillis]);
+
+  // Processed audio no longer matches once the original changes
+  useEffect(() => {
+    setCleanedUp(null);
+  }, [audio]);
+
+  useEffect(() => {
+    return () => {
+      RecordingEditor.discardPreview(id);
+    };
+  }, [id]);
+
+  const changeSelection = (startMillis: number, endMillis: number) => {
+    const start = Math.max(0, Math.min(startMillis, totalMillis - MIN_SELECTION_MILLIS));
+    setSelection({
+      startMillis: start,
+      endMillis: Math.min(totalMillis, Math.max(endMillis, start + MIN_SELECTION_MILLIS)),
+    });
+  };
+
+  // Select everything but the silence at the ends, found the same way as after recording
+  const handleSelectSound = () => {
+    if (!audio) {
+      return;
+    }
+
+    const trim = detectSilenceTrim(audio, silenceTrimOptions(settings));
+    if (!trim) {
+      Alert.alert('No Sound Found', `Nothing in this recording reaches ${settings.trimSilenceThresholdDb} dB.`);
+    } else if (!trimsAnything(trim, totalMillis)) {
+      Alert.alert(
+        'No Silence Found',
+        `Neither end stays below ${settings.trimSilenceThresholdDb} dB for ${settings.trimSilenceSeconds} s or longer.`
+      );
+    } else {
+      changeSelection(trim.startMillis, trim.endMillis);
+    }
+  };
+
+  // Play just the selection, pausing at its end
+  const handlePreview = async () => {
+    if (!recording) {
+      return;
+    }
+    if (isLoaded && isPlaying) {
+      await pauseSound();
+      return;
+    }
+
+    await playSession(
+      { id: recording.id, title: recording.title, segments: [recording] },
+      { startMillis: selection.startMillis, endMillis: selection.endMillis }
+    );
+  };
+
+  const handleSave = async (mode: EditSaveMode) => {
+    if (!recording) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const saved = await RecordingEditor.trimRecording(recording, selection.startMillis, selection.endMillis, mode);
+    setIsSaving(false);
+
+    if (!saved) {
+      setError('Failed to save the trimmed recording');
+    } else if (mode === 'copy') {
+      Alert.alert('Copy Saved', `The selection was saved as "${saved.title}".`);
+    } else {
+      reload();
+    }
+  };
+
+  // Edits made in place go on the edit list, so they can be undone from the History section
+  const runEdit = async (edit: () => Promise<AudioFile | null>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    const edited = await edit();
+    setIsSaving(false);
+    if (edited) {
+      reload();
+    } else {
+      setError(failure);
+    }
+  };
+
+  const handleCut = async () => {
+    if (!recording) {
+      return;
+    }
+    await runEdit(
+      () => RecordingEditor.cutRecording(recording, selection.startMillis, selection.endMillis),
+      'Failed to cut the selection'
+    );
+  };
+
+  const handleUndo = async () => {
+    if (recording) {
+      await runEdit(() => RecordingEditor.undo(recording), 'Failed to undo the edit');
+    }
+  };
+
+  const handleRedo = async () => {
+    if (recording) {
+      await runEdit(() => RecordingEditor.redo(recording), 'Failed to redo the edit');
+    }
+  };
+
+  const handleRevert = () => {
+    if (!recording) {
+      return;
+    }
+
+    Alert.alert('Revert to Original', 'Drop every edit and go back to the recording as it was made?', [
+      {
+        text: 'Cancel',
+        style: 'cancel',
+      },
+      {
+        text: 'Revert',
+        style: 'destructive',
+        onPress: () => runEdit(() => RecordingEditor.revertToOriginal(recording), 'Failed to revert the recording'),
+      },
+    ]);
+  };
+
+  const handleFade = async (edge: 'in' | 'out') => {
+    if (!recording) {
+      return;
+    }
+
+    const fadeMillis = Math.min(settings.fadeMillis, totalMillis);
+    await runEdit(
+      () => RecordingEditor.fadeRecording(recording, edge, settings.fadeCurve, fadeMillis),
+      'Failed to apply the fade'
+    );
+  };
+
+  const changeCleanupOptions = (changes: Partial<CleanupOptions>) => {
+    setCleanupOptions(options => ({ ...options, ...changes }));
+    if (cleanedUp) {
+      setCleanedUp(null);
+      RecordingEditor.discardPreview(id);
+    }
+  };
+
+  // The selection marks a stretch with nothing but background noise
+  const handleUseNoiseSample = () => {
+    if (!audio) {
+      return;
+    }
+
+    const minimum = Math.ceil(minNoiseSampleMillis(audio.sampleRate));
+    if (selection.endMillis - selection.startMillis < minimum) {
+      setError(`Select at least ${minimum} ms of background noise`);
+      return;
+    }
+    setError(null);
+    changeCleanupOptions({ noiseSample: { ...selection } });
+  };
+
+  // Run the clean-up steps and write the result where it can be played next to the original
+  const handleProcess = async () => {
+    if (!recording || !audio) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    await RecordingEditor.discardPreview(recording.id);
+    await yieldToRender();
+    const cleaned = cleanUpAudio(audio, cleanupOptions);
+    const preview = cleaned && (await RecordingEditor.writePreview(recording, cleaned));
+    setIsSaving(false);
+
+    if (!cleaned) {
+      setError('The noise sample is too short to measure');
+    } else if (!preview) {
+      setError('Failed to process the recording');
+    } else {
+      setCleanedUp({ audio: cleaned, preview });
+    }
+  };
+
+  // Switch between the original and the processed version, carrying on from the same position
+  const handleCompare = async (version: 'original' | 'processed') => {
+    if (!recording || !cleanedUp) {
+      return;
+    }
+
+    const target = version === 'original' ? recording : cleanedUp.preview;
+    if (playingId === target.id && isPlaying) {
+      await pauseSound();
+      return;
+    }
+    await playSession(
+      { id: target.id, title: recording.title, segments: [target] },
+      { startMillis: isLoaded || isPreviewLoaded ? position : 0 }
+    );
+  };
+
+  const saveCleanup = async (mode: EditSaveMode) => {
+    if (!recording || !cleanedUp) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    await RecordingEditor.discardPreview(recording.id);
+    const saved = await RecordingEditor.saveCleanedAudio(recording, cleanupOptions, cleanedUp.audio, mode);
+    setIsSaving(false);
+
+    if (!saved) {
+      setError('Failed to save the cleaned up recording');
+      return;
+    }
+    setCleanedUp(null);
+    if (mode === 'copy') {
+      Alert.alert('Copy Saved', `The cleaned up recording was saved as "${saved.title}".`);
+    } else {
+      reload();
+    }
+  };
+
+  // Both halves become new recordings, the original stays as it is
+  const handleSplit = async (atMillis: number) => {
+    if (!recording) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const parts = await RecordingEditor.splitRecording(recording, atMillis);
+    setIsSaving(false);
+
+    if (!parts) {
+      setError('Failed to split the recording');
+    } else {
+      Alert.alert('Recording Split', `Saved as "${parts[0].title}" and "${parts[1].title}".`);
+    }
+  };
+
+  const handleMeasure = async () => {
+    if (!recording) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const loudness = await RecordingEditor.measureLoudness(recording);
+    setIsSaving(false);
+    if (!loudness) {
+      setError('Failed to measure the recording');
+    }
+  };
+
+  const handleNormalize = async (mode: EditSaveMode) => {
+    if (!recording) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const normalized = await RecordingEditor.normalizeRecording(recording, settings.normalizationTarget, mode);
+    setIsSaving(false);
+
+    if (!normalized) {
+      setError('Failed to normalize the recording. It may be too quiet to measure.');
+    } else if (mode === 'copy') {
+      Alert.alert('Copy Saved', `The normalized recording was saved as "${normalized.title}".`);
+    } else {
+      reload();
+    }
+  };
+
+  const handleConvert = async (mode: EditSaveMode) => {
+    if (!recording) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    await yieldToRender();
+    const result = await RecordingEditor.convertRecording(recording, settings.conversion, mode);
+    setIsSaving(false);
+
+    if (!result) {
+      setError('Failed to convert the recording');
+    } else if (mode === 'copy') {
+      Alert.alert(
+        'Copy Saved',
+        `The converted recording was saved as "${result.recording.title}", ${formatMegabytes(result.savedBytes)} smaller than the original.`
+      );
+    } else {
+      Alert.alert('Recording Converted', `${formatMegabytes(result.savedBytes)} of space saved.`);
+      reload();
+    }
+  };
+
+  // Unlike edits, a conversion isn't on the edit list
+  const handleConvertOriginal = () => {
+    Alert.alert('Convert Original', "Convert this recording in place? This can't be undone.", [
+      {
+        text: 'Cancel',
+        style: 'cancel',
+      },
+      {
+        text: 'Convert',
+        style: 'destructive',
+        onPress: () => handleConvert('replace'),
+      },
+    ]);
+  };
+
+  const handleExport = async () => {
+    if (!recording) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    await yieldToRender();
+    const exported = await RecordingExporter.exportFlac(recording, settings.flacLevel);
+    setIsSaving(false);
+
+    if (!exported) {
+      setError('Failed to export the recording');
+      return;
+    }
+    // Only iOS can share a file by its uri
+    Alert.alert(
+      'Exported',
+      `Saved as ${exported.filename}, ${formatMegabytes(exported.size)} (${Math.round((exported.size / recording.size) * 100)}% of the WAV).`,
+      Platform.OS === 'ios'
+        ? [{ text: 'Done', style: 'cancel' }, { text: 'Share', onPress: () => Share.share({ url: exported.uri }) }]
+        : undefined
+    );
+  };
+
+  const renderButton = (label: string, onPress: () => void, disabled = false, primary = false) => (
+    <TouchableOpacity
+      style={[
+        styles.button,
+        { borderColor: Colors[theme].tint },
+        primary && { backgroundColor: Colors[theme].tint },
+        disabled && styles.disabled,
+      ]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <ThemedText type="defaultSemiBold" style={primary && { color: Colors[theme].background }}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderChip = (label: string, onPress: () => void, disabled = false) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, { borderColor: Colors[theme].tint }, disabled && styles.disabled]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <ThemedText style={styles.chipText}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  // Sources that are still in the library open in the editor
+  const renderProvenance = (provenance: RecordingProvenance) => (
+    <ThemedText style={styles.details}>
+      {PROVENANCE_LABELS[provenance.operation]}{' '}
+      {provenance.sources.map((source, index) => (
+        <React.Fragment key={`${source.id}-${index}`}>
+          {index > 0 && ', '}
+          {recordings.some(r => r.id === source.id) ? (
+            <ThemedText
+              type="link"
+              style={styles.sourceLink}
+              onPress={() => router.push({ pathname: '/recording/[id]', params: { id: source.id } })}
+            >
+              {source.title}
+            </ThemedText>
+          ) : (
+            source.title
+          )}
+        </React.Fragment>
+      ))}
+    </ThemedText>
+  );
+
+  const renderMessage = (message: string) => (
+    <View style={styles.message}>
+      <ThemedText style={styles.messageText}>{message}</ThemedText>
+    </View>
+  );
+
+  const renderEditor = () => {
+    if (!recording) {
+      return isLoadingRecordings ? <ActivityIndicator style={styles.message} /> : renderMessage('Recording not found');
+    }
+    const blocker = RecordingEditor.editBlocker(recording);
+    if (blocker === 'format') {
+      return renderMessage(
+        'Only WAV recordings can be edited or exported as FLAC. ' +
+          `This one is ${describeRecordingFormat(recording.format)}.`
+      );
+    }
+    if (blocker === 'size') {
+      return renderMessage(
+        `Recordings over ${formatMegabytes(MAX_DECODE_BYTES)} are too large to edit. ` +
+          `This one is ${formatMegabytes(recording.size)}.`
+      );
+    }
+    if (isDecoding) {
+      return <ActivityIndicator style={styles.message} />;
+    }
+    if (!audio) {
+      return renderMessage('This recording could not be read');
+    }
+
+    return (
+      <>
+        <TrimSelector
+          levels={levels}
+          durationMillis={totalMillis}
+          startMillis={selection.startMillis}
+          endMillis={selection.endMillis}
+          onChange={changeSelection}
+          positionMillis={isLoaded || isPreviewLoaded ? position : null}
+          minimumMillis={MIN_SELECTION_MILLIS}
+          style={styles.selector}
+        />
+
+        <Stepper
+          label="Start"
+          value={formatPrecise(selection.startMillis)}
+          onDecrease={() => changeSelection(selection.startMillis - NUDGE_MILLIS, selection.endMillis)}
+          onIncrease={() => changeSelection(selection.startMillis + NUDGE_MILLIS, selection.endMillis)}
+        />
+        <Stepper
+          label="End"
+          value={formatPrecise(selection.endMillis)}
+          onDecrease={() => changeSelection(selection.startMillis, selection.endMillis - NUDGE_MILLIS)}
+          onIncrease={() => changeSelection(selection.startMillis, selection.endMillis + NUDGE_MILLIS)}
+        />
+
+        <ThemedText style={styles.summary}>
+          Keeping {formatPrecise(selection.endMillis - selection.startMillis)} of {formatPrecise(totalMillis)}
+        </ThemedText>
+
+        <View style={styles.buttons}>
+          {renderButton(isLoaded && isPlaying ? 'Pause' : 'Preview', handlePreview)}
+          {renderButton('Select All', () => changeSelection(0, totalMillis), !isTrimmed)}
+          {renderButton('Trim Silence', handleSelectSound)}
+        </View>
+
+        <View style={styles.buttons}>
+          {renderButton('Save as Copy', () => handleSave('copy'), !isTrimmed || isSaving, true)}
+          {renderButton('Apply Trim', () => handleSave('replace'), !isTrimmed || isSaving)}
+          {renderButton('Cut Selection', handleCut, !isTrimmed || isSaving)}
+        </View>
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Fades</ThemedText>
+        <FadeCurvePicker selected={settings.fadeCurve} onSelect={fadeCurve => updateSettings({ fadeCurve })} />
+        <Stepper
+          label="Length"
+          value={formatSeconds(settings.fadeMillis)}
+          onDecrease={() =>
+            updateSettings({ fadeMillis: Math.max(FADE_STEP_MILLIS, settings.fadeMillis - FADE_STEP_MILLIS) })
+          }
+          onIncrease={() =>
+            updateSettings({ fadeMillis: Math.min(MAX_FADE_MILLIS, settings.fadeMillis + FADE_STEP_MILLIS) })
+          }
+        />
+        <View style={styles.buttons}>
+          {renderButton('Fade In', () => handleFade('in'), isSaving)}
+          {renderButton('Fade Out', () => handleFade('out'), isSaving)}
+        </View>
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Loudness</ThemedText>
+        <ThemedText style={styles.details}>{describeLoudness(recording.loudness)}</ThemedText>
+        <NormalizationTargetPicker
+          target={settings.normalizationTarget}
+          onSelect={target => updateSettings({ normalizationTarget: target })}
+        />
+        <View style={styles.buttons}>
+          {renderButton('Measure', handleMeasure, isSaving)}
+          {renderButton('Normalize as Copy', () => handleNormalize('copy'), isSaving, true)}
+          {renderButton(
+            `Normalize to ${formatNormalizationTarget(settings.normalizationTarget)}`,
+            () => handleNormalize('replace'),
+            isSaving
+          )}
+        </View>
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Convert</ThemedText>
+        <ConversionPicker options={settings.conversion} onChange={conversion => updateSettings({ conversion })} />
+        <View style={styles.buttons}>
+          {renderButton('Convert as Copy', () => handleConvert('copy'), isSaving || !canConvert, true)}
+          {renderButton('Convert Original', handleConvertOriginal, isSaving || !canConvert)}
+        </View>
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Clean Up</ThemedText>
+        <Stepper
+          label="High-pass"
+          value={cleanupOptions.highPassHz === null ? 'Off' : `${cleanupOptions.highPassHz} Hz`}
+          onDecrease={() =>
+            changeCleanupOptions({
+              highPassHz:
+                cleanupOptions.highPassHz === null || cleanupOptions.highPassHz <= MIN_HIGH_PASS_HZ
+                  ? null
+                  : cleanupOptions.highPassHz - HIGH_PASS_STEP_HZ,
+            })
+          }
+          onIncrease={() =>
+            changeCleanupOptions({
+              highPassHz:
+                cleanupOptions.highPassHz === null
+                  ? MIN_HIGH_PASS_HZ
+                  : Math.min(MAX_HIGH_PASS_HZ, cleanupOptions.highPassHz + HIGH_PASS_STEP_HZ),
+            })
+          }
+        />
+        <Stepper
+          label="Gate below"
+          value={cleanupOptions.gateThresholdDb === null ? 'Off' : `${cleanupOptions.gateThresholdDb} dB`}
+          onDecrease={() =>
+            changeCleanupOptions({
+              gateThresholdDb:
+                cleanupOptions.gateThresholdDb === null || cleanupOptions.gateThresholdDb <= MIN_GATE_DB
+                  ? null
+                  : cleanupOptions.gateThresholdDb - GATE_STEP_DB,
+            })
+          }
+          onIncrease={() =>
+            changeCleanupOptions({
+              gateThresholdDb:
+                cleanupOptions.gateThresholdDb === null
+                  ? MIN_GATE_DB
+                  : Math.min(MAX_GATE_DB, cleanupOptions.gateThresholdDb + GATE_STEP_DB),
+            })
+          }
+        />
+        <Stepper
+          label="Reduce noise by"
+          value={`${cleanupOptions.reductionDb} dB`}
+          onDecrease={() =>
+            changeCleanupOptions({ reductionDb: Math.max(MIN_REDUCTION_DB, cleanupOptions.reductionDb - REDUCTION_STEP_DB) })
+          }
+          onIncrease={() =>
+            changeCleanupOptions({ reductionDb: Math.min(MAX_REDUCTION_DB, cleanupOptions.reductionDb + REDUCTION_STEP_DB) })
+          }
+        />
+        <ThemedText style={styles.details}>
+          {cleanupOptions.noiseSample
+            ? `Noise sample ${formatPrecise(cleanupOptions.noiseSample.startMillis)}–${formatPrecise(cleanupOptions.noiseSample.endMillis)}`
+            : 'Select a stretch with only background noise to reduce it everywhere'}
+        </ThemedText>
+        <View style={styles.chips}>
+          {renderChip('Use Selection as Noise', handleUseNoiseSample, isSaving)}
+          {cleanupOptions.noiseSample && renderChip('Clear', () => changeCleanupOptions({ noiseSample: null }), isSaving)}
+        </View>
+        <View style={styles.buttons}>
+          {renderButton(
+            'Process',
+            handleProcess,
+            isSaving ||
+              cleanedUp !== null ||
+              (cleanupOptions.highPassHz === null &&
+                cleanupOptions.noiseSample === null &&
+                cleanupOptions.gateThresholdDb === null)
+          )}
+        </View>
+        {cleanedUp && (
+          <>
+            <View style={styles.buttons}>
+              {renderButton('A: Original', () => handleCompare('original'), false, isLoaded && isPlaying)}
+              {renderButton('B: Processed', () => handleCompare('processed'), false, isPreviewLoaded && isPlaying)}
+            </View>
+            <View style={styles.buttons}>
+              {renderButton('Save as Copy', () => saveCleanup('copy'), isSaving, true)}
+              {renderButton('Apply', () => saveCleanup('replace'), isSaving)}
+            </View>
+          </>
+        )}
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Export</ThemedText>
+        <ThemedText style={styles.details}>
+          A lossless FLAC copy of this WAV recording. Compressed recordings can't be exported.
+        </ThemedText>
+        <Stepper
+          label="FLAC compression"
+          value={`Level ${settings.flacLevel}`}
+          onDecrease={() => updateSettings({ flacLevel: Math.max(MIN_FLAC_LEVEL, settings.flacLevel - 1) })}
+          onIncrease={() => updateSettings({ flacLevel: Math.min(MAX_FLAC_LEVEL, settings.flacLevel + 1) })}
+        />
+        <View style={styles.buttons}>
+          {renderButton('Export FLAC', handleExport, isSaving, true)}
+        </View>
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>History</ThemedText>
+        {editList ? (
+          editList.edits.map((edit, index) => (
+            <ThemedText key={index} style={[styles.edit, index >= editList.applied && styles.undone]}>
+              {index + 1}. {describeEdit(edit)}
+            </ThemedText>
+          ))
+        ) : (
+          <ThemedText style={styles.details}>No edits yet, this is the recording as it was made</ThemedText>
+        )}
+        <View style={styles.buttons}>
+          {renderButton('Undo', handleUndo, !canUndo || isSaving)}
+          {renderButton('Redo', handleRedo, !canRedo || isSaving)}
+          {renderButton('Revert to Original', handleRevert, !editList || isSaving)}
+        </View>
+
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Split</ThemedText>
+        <ThemedText style={styles.details}>
+          Cut into two new recordings at the playhead or a bookmark. The original is kept.
+        </ThemedText>
+        <View style={styles.chips}>
+          {renderChip(
+            isLoaded ? `At playhead ${formatPrecise(position)}` : 'At playhead (preview to place it)',
+            () => handleSplit(position),
+            !isLoaded || isSaving
+          )}
+          {(recording.bookmarks ?? []).map(bookmark =>
+            renderChip(
+              `${bookmark.label ?? 'Bookmark'} ${formatPrecise(bookmark.positionMillis)}`,
+              () => handleSplit(bookmark.positionMillis),
+              isSaving
+            )
+          )}
+        </View>
+
+        {isSaving && <ActivityIndicator style={styles.saving} />}
+      </>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: recording?.title ?? 'Edit Recording' }} />
+
+      {error && (
+        <ThemedView style={styles.errorContainer}>
+          <ThemedText style={styles.errorText}>{error}</ThemedText>
+        </ThemedView>
+      )}
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {recording && (
+          <ThemedText style={styles.details}>
+            {formatPrecise(recording.duration)} • {formatMegabytes(recording.size)} •{' '}
+            {describeRecordingFormat(recording.format)}
+          </ThemedText>
+        )}
+        {recording?.provenance && renderProvenance(recording.provenance)}
+        {renderEditor()}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  details: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 10,
+  },
+  selector: {
+    marginBottom: 10,
+  },
+  summary: {
+    textAlign: 'center',
+    marginVertical: 10,
+    fontVariant: ['tabular-nums'],
+  },
+  buttons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  button: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    margin: 4,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  sectionTitle: {
+    marginTop: 24,
+    marginBottom: 4,
+  },
+  edit: {
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  undone: {
+    opacity: 0.4,
+    textDecorationLine: 'line-through',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    margin: 3,
+  },
+  chipText: {
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+  },
+  sourceLink: {
+    fontSize: 14,
+  },
+  saving: {
+    marginTop: 12,
+  },
+  message: {
+    marginTop: 40,
+    alignItems: 'center',
+  },
+  messageText: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(231, 76, 60, 0.1)',
+    padding: 10,
+    margin: 10,
+    borderRadius: 5,
+    borderLeftWidth: 4,
+    borderLeftColor: '#E74C3C',
+  },
+  errorText: {
+    color: '#E74C3C',
+    fontSize: 14,
+  },
+});
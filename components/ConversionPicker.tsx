@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { ConversionOptions, CONVERSION_SAMPLE_RATES } from '@/utils/resample';
+
+interface ConversionPickerProps {
+  options: ConversionOptions;
+  onChange: (options: ConversionOptions) => void;
+}
+
+const SAMPLE_RATES: { sampleRate: number | null; label: string }[] = [
+  { sampleRate: null, label: 'Keep rate' },
+  ...CONVERSION_SAMPLE_RATES.map(sampleRate => ({ sampleRate, label: `${sampleRate / 1000} kHz` })),
+];
+
+export function ConversionPicker({ options, onChange }: ConversionPickerProps) {
+  const theme = useColorScheme() ?? 'light';
+
+  const renderOption = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.option,
+        { borderColor: Colors[theme].tint },
+        isSelected && { backgroundColor: Colors[theme].tint },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.optionText, isSelected && { color: Colors[theme].background }]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <>
+      <View style={styles.options}>
+        {renderOption('Mono', options.mono, () => onChange({ ...options, mono: true }))}
+        {renderOption('Keep channels', !options.mono, () => onChange({ ...options, mono: false }))}
+      </View>
+      <View style={styles.options}>
+        {SAMPLE_RATES.map(({ sampleRate, label }) =>
+          renderOption(label, sampleRate === options.sampleRate, () => onChange({ ...options, sampleRate }))
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    margin: 3,
+  },
+  optionText: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,47 @@
+import React from 'react';
+import { StyleSheet, Switch, View } from 'react-native';
+
+import { ConversionPicker } from '@/components/ConversionPicker';
+import { ThemedText } from '@/components/ThemedText';
+import { Settings } from '@/services/SettingsService';
+
+type ConversionFields = Pick<Settings, 'convertAfterRecording' | 'conversion'>;
+
+interface ConversionSettingsProps {
+  settings: ConversionFields;
+  onChange: (changes: Partial<ConversionFields>) => void;
+}
+
+export function ConversionSettings({ settings, onChange }: ConversionSettingsProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <ThemedText style={styles.label}>Convert to save space</ThemedText>
+        <Switch
+          value={settings.convertAfterRecording}
+          onValueChange={convertAfterRecording => onChange({ convertAfterRecording })}
+        />
+      </View>
+
+      {settings.convertAfterRecording && (
+        <ConversionPicker options={settings.conversion} onChange={conversion => onChange({ conversion })} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginTop: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,63 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { FadeCurve } from '@/utils/audioEdit';
+
+interface FadeCurvePickerProps {
+  selected: FadeCurve;
+  onSelect: (curve: FadeCurve) => void;
+}
+
+const CURVES: { curve: FadeCurve; label: string }[] = [
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'logarithmic', label: 'Logarithmic' },
+  { curve: 'sCurve', label: 'S-curve' },
+];
+
+export function FadeCurvePicker({ selected, onSelect }: FadeCurvePickerProps) {
+  const theme = useColorScheme() ?? 'light';
+
+  return (
+    <View style={styles.options}>
+      {CURVES.map(({ curve, label }) => {
+        const isSelected = curve === selected;
+        return (
+          <TouchableOpacity
+            key={curve}
+            style={[
+              styles.option,
+              { borderColor: Colors[theme].tint },
+              isSelected && { backgroundColor: Colors[theme].tint },
+            ]}
+            onPress={() => onSelect(curve)}
+          >
+            <ThemedText style={[styles.optionText, isSelected && { color: Colors[theme].background }]}>
+              {label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    margin: 3,
+  },
+  optionText: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  CLIPPING_DB,
+  dbfsToLevel,
+  METER_FLOOR_DB,
+  PeakHold,
+  peakHoldDb,
+  updatePeakHold,
+} from '@/utils/metering';
+
+interface LevelMeterProps {
+  // Latest input level in dBFS, null while nothing is being measured
+  db: number | null;
+}
+
+// How long the clip light stays on after the input clipped
+const CLIP_LATCH_MILLIS = 2000;
+
+export function LevelMeter({ db }: LevelMeterProps) {
+  const theme = useColorScheme() ?? 'light';
+  const [peak, setPeak] = useState<PeakHold | null>(null);
+  const [clippedAt, setClippedAt] = useState<number | null>(null);
+  const now = Date.now();
+
+  useEffect(() => {
+    if (db === null) {
+      setPeak(null);
+      setClippedAt(null);
+      return;
+    }
+
+    const time = Date.now();
+    setPeak(current => updatePeakHold(current, db, time));
+    if (db >= CLIPPING_DB) {
+      setClippedAt(time);
+    }
+  }, [db]);
+
+  const level = db === null ? 0 : dbfsToLevel(db);
+  const peakLevel = peak ? dbfsToLevel(peakHoldDb(peak, now)) : 0;
+  const isClipping = clippedAt !== null && now - clippedAt < CLIP_LATCH_MILLIS;
+  const barColor = level > 0.9 ? '#E74C3C' : level > 0.75 ? '#F39C12' : '#2ECC71';
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.track, { borderColor: Colors[theme].icon }]}>
+        <View style={[styles.fill, { width: `${level * 100}%`, backgroundColor: barColor }]} />
+        {peakLevel > 0 && (
+          <View style={[styles.peak, { left: `${peakLevel * 100}%`, backgroundColor: Colors[theme].text }]} />
+        )}
+      </View>
+
+      <View style={styles.readout}>
+        <ThemedText style={styles.dbText}>
+          {db === null || db <= METER_FLOOR_DB ? '-∞' : db.toFixed(1)} dBFS
+        </ThemedText>
+        <View style={[styles.clip, isClipping && styles.clipActive]}>
+          <ThemedText style={[styles.clipText, isClipping && styles.clipTextActive]}>CLIP</ThemedText>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginVertical: 10,
+  },
+  track: {
+    height: 12,
+    borderWidth: 1,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+  peak: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+  },
+  readout: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  dbText: {
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  clip: {
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    backgroundColor: 'rgba(231, 76, 60, 0.15)',
+  },
+  clipActive: {
+    backgroundColor: '#E74C3C',
+  },
+  clipText: {
+    fontSize: 12,
+    lineHeight: 18,
+    fontWeight: '700',
+    color: 'rgba(231, 76, 60, 0.5)',
+  },
+  clipTextActive: {
+    color: 'white',
+  },
+});
@@ -0,0 +1,122 @@
+import React from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { LoopRegion } from '@/services/PlaybackController';
+import { GroupLoop } from '@/utils/recordingGroups';
+
+interface LoopControlsProps {
+  loop: LoopRegion | null;
+  savedLoops: GroupLoop[];
+  formatTime: (millis: number) => string;
+  onSetStart: () => void;
+  onSetEnd: () => void;
+  onRepeatsChange: (repeats: number | null) => void;
+  onClear: () => void;
+  onSave: () => void;
+  onSelectSaved: (loop: GroupLoop) => void;
+  onDeleteSaved: (loop: GroupLoop) => void;
+}
+
+// Repeat counts offered by the repeat button, null loops until cleared
+const REPEAT_OPTIONS = [null, 2, 3, 5, 10];
+
+// A-B loop buttons for the loaded item, plus the loops saved with it
+export function LoopControls({
+  loop,
+  savedLoops,
+  formatTime,
+  onSetStart,
+  onSetEnd,
+  onRepeatsChange,
+  onClear,
+  onSave,
+  onSelectSaved,
+  onDeleteSaved,
+}: LoopControlsProps) {
+  const theme = useColorScheme() ?? 'light';
+  const tint = Colors[theme].tint;
+  const isComplete = loop !== null && loop.endMillis !== null;
+
+  const cycleRepeats = () => {
+    const index = REPEAT_OPTIONS.indexOf(loop?.repeats ?? null);
+    onRepeatsChange(REPEAT_OPTIONS[(index + 1) % REPEAT_OPTIONS.length]);
+  };
+
+  const renderButton = (label: string, onPress: () => void, active = false, disabled = false) => (
+    <TouchableOpacity
+      style={[styles.button, { borderColor: tint }, active && { backgroundColor: tint }, disabled && styles.disabled]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <ThemedText style={[styles.buttonText, active && { color: Colors[theme].background }]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  const repeatsLabel = loop?.repeats == null
+    ? '∞'
+    : `${Math.min(loop.completed + 1, loop.repeats)}/${loop.repeats}`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {renderButton(loop ? `A ${formatTime(loop.startMillis)}` : 'A', onSetStart, loop !== null)}
+        {renderButton(isComplete ? `B ${formatTime(loop.endMillis!)}` : 'B', onSetEnd, isComplete, loop === null)}
+        {renderButton(`Repeat ${repeatsLabel}`, cycleRepeats, false, loop === null)}
+        {renderButton('Save', onSave, false, !isComplete)}
+        {renderButton('Clear', onClear, false, loop === null)}
+      </View>
+
+      {savedLoops.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.savedLoops}>
+          {savedLoops.map(saved => {
+            const isActive = loop?.startMillis === saved.startMillis && loop?.endMillis === saved.endMillis;
+            return (
+              <TouchableOpacity
+                key={saved.id}
+                style={[styles.button, { borderColor: tint }, isActive && { backgroundColor: tint }]}
+                onPress={() => onSelectSaved(saved)}
+                onLongPress={() => onDeleteSaved(saved)}
+              >
+                <ThemedText style={[styles.buttonText, isActive && { color: Colors[theme].background }]}>
+                  {saved.label ? `${saved.label} ` : ''}{formatTime(saved.startMillis)}–{formatTime(saved.endMillis)}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  savedLoops: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  button: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    margin: 3,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,59 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { formatNormalizationTarget, isSameNormalizationTarget, NORMALIZATION_TARGETS } from '@/constants/Loudness';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { NormalizationTarget } from '@/utils/loudness';
+
+interface NormalizationTargetPickerProps {
+  target: NormalizationTarget;
+  onSelect: (target: NormalizationTarget) => void;
+}
+
+// Peak or loudness level to normalize recordings to
+export function NormalizationTargetPicker({ target, onSelect }: NormalizationTargetPickerProps) {
+  const theme = useColorScheme() ?? 'light';
+
+  return (
+    <View style={styles.options}>
+      {NORMALIZATION_TARGETS.map(option => {
+        const isSelected = isSameNormalizationTarget(option, target);
+        return (
+          <TouchableOpacity
+            key={formatNormalizationTarget(option)}
+            style={[
+              styles.option,
+              { borderColor: Colors[theme].tint },
+              isSelected && { backgroundColor: Colors[theme].tint },
+            ]}
+            onPress={() => onSelect(option)}
+          >
+            <ThemedText style={[styles.optionText, isSelected && { color: Colors[theme].background }]}>
+              {formatNormalizationTarget(option)}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    margin: 3,
+  },
+  optionText: {
+    fontSize: 13,
+  },
+});
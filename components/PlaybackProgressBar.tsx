@@ -0,0 +1,169 @@
+import React, { useRef, useState } from 'react';
+import {
+  PanResponder,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+  type GestureResponderEvent,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { GroupBookmark } from '@/utils/recordingGroups';
+
+interface PlaybackProgressBarProps {
+  positionMillis: number;
+  durationMillis: number;
+  bookmarks?: GroupBookmark[];
+  onBookmarkPress?: (bookmark: GroupBookmark) => void;
+  onBookmarkLongPress?: (bookmark: GroupBookmark) => void;
+  // Makes the bar a scrubber: tap or drag, the position is reported when the finger lifts
+  onSeek?: (positionMillis: number) => void;
+  // Highlighted A-B loop region
+  loop?: { startMillis: number; endMillis: number | null } | null;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Progress through a recording with a tick for every bookmark
+export function PlaybackProgressBar({
+  positionMillis,
+  durationMillis,
+  bookmarks = [],
+  onBookmarkPress,
+  onBookmarkLongPress,
+  onSeek,
+  loop,
+  style,
+}: PlaybackProgressBarProps) {
+  const theme = useColorScheme() ?? 'light';
+  const [width, setWidth] = useState(0);
+  // Position under the finger while scrubbing, so the bar doesn't jump back to the player's position
+  const [dragMillis, setDragMillis] = useState<number | null>(null);
+
+  // The responder is created once, so it reads the latest props through a ref
+  const latest = useRef({ width, durationMillis, onSeek });
+  latest.current = { width, durationMillis, onSeek };
+  const dragStartX = useRef(0);
+
+  const millisAt = (x: number) => {
+    const { width, durationMillis } = latest.current;
+    return width > 0 ? Math.min(1, Math.max(0, x / width)) * durationMillis : 0;
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => latest.current.onSeek !== undefined,
+      onMoveShouldSetPanResponder: () => latest.current.onSeek !== undefined,
+      // Keep the gesture when the list tries to scroll
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event: GestureResponderEvent) => {
+        dragStartX.current = event.nativeEvent.locationX;
+        setDragMillis(millisAt(dragStartX.current));
+      },
+      onPanResponderMove: (_event, gesture) => {
+        setDragMillis(millisAt(dragStartX.current + gesture.dx));
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        setDragMillis(null);
+        latest.current.onSeek?.(millisAt(dragStartX.current + gesture.dx));
+      },
+      onPanResponderTerminate: () => setDragMillis(null),
+    })
+  ).current;
+
+  const fraction = (millis: number) => (durationMillis > 0 ? Math.min(1, Math.max(0, millis / durationMillis)) : 0);
+  const progress = fraction(dragMillis ?? positionMillis);
+
+  return (
+    <View
+      style={[styles.container, style]}
+      onLayout={event => setWidth(event.nativeEvent.layout.width)}
+      {...panResponder.panHandlers}
+    >
+      <View style={[styles.track, { backgroundColor: Colors[theme].icon }]}>
+        <View style={[styles.fill, { width: `${progress * 100}%`, backgroundColor: Colors[theme].tint }]} />
+      </View>
+
+      {loop && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.loop,
+            {
+              left: `${fraction(loop.startMillis) * 100}%`,
+              // Just the A marker until B is set
+              width: loop.endMillis === null ? 2 : `${(fraction(loop.endMillis) - fraction(loop.startMillis)) * 100}%`,
+            },
+          ]}
+        />
+      )}
+
+      {bookmarks.map(bookmark => (
+        <TouchableOpacity
+          key={bookmark.id}
+          style={[styles.tickTarget, { left: `${fraction(bookmark.positionMillis) * 100}%` }]}
+          // The ticks are thin, give them a finger-sized target
+          hitSlop={{ top: 10, bottom: 10, left: 8, right: 8 }}
+          onPress={() => onBookmarkPress?.(bookmark)}
+          onLongPress={() => onBookmarkLongPress?.(bookmark)}
+        >
+          <View style={[styles.tick, { backgroundColor: Colors[theme].text }]} />
+        </TouchableOpacity>
+      ))}
+
+      {onSeek && (
+        <View
+          pointerEvents="none"
+          style={[styles.thumb, { left: `${progress * 100}%`, backgroundColor: Colors[theme].tint }]}
+        />
+      )}
+    </View>
+  );
+}
+
+const TICK_TARGET_WIDTH = 12;
+const THUMB_SIZE = 14;
+
+const styles = StyleSheet.create({
+  container: {
+    height: 16,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+  loop: {
+    position: 'absolute',
+    top: 2,
+    bottom: 2,
+    borderRadius: 2,
+    backgroundColor: 'rgba(243, 156, 18, 0.5)',
+  },
+  tickTarget: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: TICK_TARGET_WIDTH,
+    marginLeft: -TICK_TARGET_WIDTH / 2,
+    alignItems: 'center',
+  },
+  tick: {
+    width: 2,
+    height: '100%',
+    borderRadius: 1,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    marginLeft: -THUMB_SIZE / 2,
+  },
+});
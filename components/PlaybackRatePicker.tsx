@@ -0,0 +1,82 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { formatPlaybackRate, PLAYBACK_RATES } from '@/constants/PlaybackRates';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+interface PlaybackRatePickerProps {
+  // Speed of the recording, undefined when it follows the default
+  rate: number | undefined;
+  defaultRate: number;
+  onSelect: (rate: number | undefined) => void;
+  onMakeDefault: (rate: number) => void;
+}
+
+// Speed choices for one recording, with a way to fall back to or change the default
+export function PlaybackRatePicker({ rate, defaultRate, onSelect, onMakeDefault }: PlaybackRatePickerProps) {
+  const theme = useColorScheme() ?? 'light';
+  const effectiveRate = rate ?? defaultRate;
+
+  const renderOption = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.option,
+        { borderColor: Colors[theme].tint },
+        isSelected && { backgroundColor: Colors[theme].tint },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.optionText, isSelected && { color: Colors[theme].background }]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.options}>
+        {renderOption(`Default (${formatPlaybackRate(defaultRate)})`, rate === undefined, () => onSelect(undefined))}
+        {PLAYBACK_RATES.map(option =>
+          renderOption(formatPlaybackRate(option), rate === option, () => onSelect(option))
+        )}
+      </View>
+
+      {effectiveRate !== defaultRate && (
+        <TouchableOpacity onPress={() => onMakeDefault(effectiveRate)}>
+          <ThemedText type="link" style={styles.makeDefault}>
+            Use {formatPlaybackRate(effectiveRate)} for all recordings
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    margin: 3,
+  },
+  optionText: {
+    fontSize: 13,
+  },
+  makeDefault: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+});
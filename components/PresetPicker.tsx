@@ -0,0 +1,79 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { RecordingPresetId, RecordingPresets } from '@/constants/RecordingPresets';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+interface PresetPickerProps {
+  selected: RecordingPresetId;
+  onSelect: (id: RecordingPresetId) => void;
+  disabled?: boolean;
+}
+
+export function PresetPicker({ selected, onSelect, disabled = false }: PresetPickerProps) {
+  const theme = useColorScheme() ?? 'light';
+  const selectedPreset = RecordingPresets.find(preset => preset.id === selected);
+
+  return (
+    <View style={[styles.container, disabled && styles.disabled]}>
+      <View style={styles.options}>
+        {RecordingPresets.map(preset => {
+          const isSelected = preset.id === selected;
+          return (
+            <TouchableOpacity
+              key={preset.id}
+              style={[
+                styles.option,
+                { borderColor: Colors[theme].tint },
+                isSelected && { backgroundColor: Colors[theme].tint },
+              ]}
+              onPress={() => onSelect(preset.id)}
+              disabled={disabled}
+            >
+              <ThemedText
+                style={[styles.optionText, isSelected && { color: Colors[theme].background }]}
+              >
+                {preset.label}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {selectedPreset && (
+        <ThemedText style={styles.description}>{selectedPreset.description}</ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 4,
+    margin: 4,
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  description: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 6,
+  },
+});
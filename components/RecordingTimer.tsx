@@ -1,30 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { StyleSheet } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 
 interface RecordingTimerProps {
-  isRecording: boolean;
+  // Milliseconds recorded so far, as the recorder reports them
+  durationMillis: number;
+  // Dims the timer while recording is paused
+  isPaused?: boolean;
 }
 
-export function RecordingTimer({ isRecording }: RecordingTimerProps) {
-  const [seconds, setSeconds] = useState(0);
-
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (isRecording) {
-      interval = setInterval(() => {
-        setSeconds(s => s + 1);
-      }, 1000);
-    } else {
-      setSeconds(0);
-    }
-    
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isRecording]);
-  
+export function RecordingTimer({ durationMillis, isPaused = false }: RecordingTimerProps) {
   const formatTime = (totalSeconds: number): string => {
     const minutes = Math.floor(totalSeconds / 60);
     const seconds = totalSeconds % 60;
@@ -32,8 +17,8 @@ export function RecordingTimer({ isRecording }: RecordingTimerProps) {
   };
 
   return (
-    <ThemedText style={styles.timer} type="title">
-      {formatTime(seconds)}
+    <ThemedText style={[styles.timer, isPaused && styles.paused]} type="title">
+      {formatTime(Math.floor(durationMillis / 1000))}
     </ThemedText>
   );
 }
@@ -43,4 +28,7 @@ const styles = StyleSheet.create({
     fontSize: 48,
     marginVertical: 24,
   },
+  paused: {
+    opacity: 0.5,
+  },
 });
@@ -0,0 +1,110 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { Stepper } from '@/components/Stepper';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Settings } from '@/services/SettingsService';
+
+type SegmentFields = Pick<Settings, 'segmentMode' | 'segmentMinutes' | 'segmentMegabytes'>;
+
+interface SegmentSettingsProps {
+  settings: SegmentFields;
+  onChange: (changes: Partial<SegmentFields>) => void;
+}
+
+const MODES: { mode: Settings['segmentMode']; label: string }[] = [
+  { mode: 'off', label: 'One file' },
+  { mode: 'duration', label: 'By time' },
+  { mode: 'size', label: 'By size' },
+];
+
+export function SegmentSettings({ settings, onChange }: SegmentSettingsProps) {
+  const theme = useColorScheme() ?? 'light';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <ThemedText style={styles.label}>Split long recordings</ThemedText>
+        <View style={styles.modes}>
+          {MODES.map(({ mode, label }) => {
+            const isSelected = settings.segmentMode === mode;
+            return (
+              <TouchableOpacity
+                key={mode}
+                style={[
+                  styles.mode,
+                  { borderColor: Colors[theme].tint },
+                  isSelected && { backgroundColor: Colors[theme].tint },
+                ]}
+                onPress={() => onChange({ segmentMode: mode })}
+              >
+                <ThemedText style={[styles.modeText, isSelected && { color: Colors[theme].background }]}>
+                  {label}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {settings.segmentMode !== 'off' && (
+        <ThemedText style={styles.note}>
+          Recordings are split when you stop recording. Only WAV recordings can be split; compressed
+          formats are saved as one file.
+        </ThemedText>
+      )}
+
+      {settings.segmentMode === 'duration' && (
+        <Stepper
+          label="New file every"
+          value={`${settings.segmentMinutes} min`}
+          onDecrease={() => onChange({ segmentMinutes: Math.max(5, settings.segmentMinutes - 5) })}
+          onIncrease={() => onChange({ segmentMinutes: Math.min(240, settings.segmentMinutes + 5) })}
+        />
+      )}
+
+      {settings.segmentMode === 'size' && (
+        <Stepper
+          label="New file every"
+          value={`${settings.segmentMegabytes} MB`}
+          onDecrease={() => onChange({ segmentMegabytes: Math.max(10, settings.segmentMegabytes - 10) })}
+          onIncrease={() => onChange({ segmentMegabytes: Math.min(2000, settings.segmentMegabytes + 10) })}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginTop: 10,
+  },
+  row: {
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 15,
+  },
+  modes: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  mode: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 2,
+    marginRight: 6,
+  },
+  modeText: {
+    fontSize: 14,
+  },
+  note: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+});
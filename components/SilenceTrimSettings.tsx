@@ -0,0 +1,57 @@
+import React from 'react';
+import { StyleSheet, Switch, View } from 'react-native';
+
+import { Stepper } from '@/components/Stepper';
+import { ThemedText } from '@/components/ThemedText';
+import { Settings } from '@/services/SettingsService';
+
+type SilenceTrimFields = Pick<Settings, 'trimSilence' | 'trimSilenceThresholdDb' | 'trimSilenceSeconds'>;
+
+interface SilenceTrimSettingsProps {
+  settings: SilenceTrimFields;
+  onChange: (changes: Partial<SilenceTrimFields>) => void;
+}
+
+export function SilenceTrimSettings({ settings, onChange }: SilenceTrimSettingsProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <ThemedText style={styles.label}>Trim silence at the ends</ThemedText>
+        <Switch value={settings.trimSilence} onValueChange={trimSilence => onChange({ trimSilence })} />
+      </View>
+
+      {settings.trimSilence && (
+        <>
+          <Stepper
+            label="Silence below"
+            value={`${settings.trimSilenceThresholdDb} dB`}
+            onDecrease={() => onChange({ trimSilenceThresholdDb: Math.max(-70, settings.trimSilenceThresholdDb - 5) })}
+            onIncrease={() => onChange({ trimSilenceThresholdDb: Math.min(-20, settings.trimSilenceThresholdDb + 5) })}
+          />
+          <Stepper
+            label="Longer than"
+            value={`${settings.trimSilenceSeconds} s`}
+            onDecrease={() => onChange({ trimSilenceSeconds: Math.max(0.5, settings.trimSilenceSeconds - 0.5) })}
+            onIncrease={() => onChange({ trimSilenceSeconds: Math.min(10, settings.trimSilenceSeconds + 0.5) })}
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginTop: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 15,
+  },
+});
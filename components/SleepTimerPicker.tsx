@@ -0,0 +1,89 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { SleepTimer, SleepTimerChoice } from '@/services/PlaybackController';
+
+interface SleepTimerPickerProps {
+  timer: SleepTimer | null;
+  onSelect: (choice: SleepTimerChoice | null) => void;
+  formatTime: (millis: number) => string;
+}
+
+const MINUTE_OPTIONS = [5, 15, 30, 45, 60];
+
+// Sleep timer choices, showing what is currently set
+export function SleepTimerPicker({ timer, onSelect, formatTime }: SleepTimerPickerProps) {
+  const theme = useColorScheme() ?? 'light';
+
+  const renderOption = (label: string, isSelected: boolean, choice: SleepTimerChoice | null) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.option,
+        { borderColor: Colors[theme].tint },
+        isSelected && { backgroundColor: Colors[theme].tint },
+      ]}
+      onPress={() => onSelect(choice)}
+    >
+      <ThemedText style={[styles.optionText, isSelected && { color: Colors[theme].background }]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const describe = () => {
+    switch (timer?.mode) {
+      case 'minutes':
+        return `Stopping in ${formatTime(Math.max(0, timer.endsAt - Date.now()))}`;
+      case 'endOfItem':
+        return 'Stopping at the end of this recording';
+      case 'endOfQueue':
+        return 'Stopping at the end of the queue';
+      default:
+        return 'Sleep timer off';
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.status}>{describe()}</ThemedText>
+      <View style={styles.options}>
+        {renderOption('Off', timer === null, null)}
+        {MINUTE_OPTIONS.map(minutes =>
+          renderOption(`${minutes} min`, false, { mode: 'minutes', minutes })
+        )}
+        {renderOption('End of recording', timer?.mode === 'endOfItem', { mode: 'endOfItem' })}
+        {renderOption('End of queue', timer?.mode === 'endOfQueue', { mode: 'endOfQueue' })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  status: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    margin: 3,
+  },
+  optionText: {
+    fontSize: 13,
+  },
+});
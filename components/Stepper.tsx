@@ -0,0 +1,66 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+interface StepperProps {
+  label: string;
+  value: string;
+  onDecrease: () => void;
+  onIncrease: () => void;
+}
+
+// A labelled row with minus/plus buttons around a value
+export function Stepper({ label, value, onDecrease, onIncrease }: StepperProps) {
+  const theme = useColorScheme() ?? 'light';
+
+  return (
+    <View style={styles.row}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <View style={styles.stepper}>
+        <TouchableOpacity style={[styles.stepButton, { borderColor: Colors[theme].tint }]} onPress={onDecrease}>
+          <ThemedText style={styles.stepText}>−</ThemedText>
+        </TouchableOpacity>
+        <ThemedText style={styles.value}>{value}</ThemedText>
+        <TouchableOpacity style={[styles.stepButton, { borderColor: Colors[theme].tint }]} onPress={onIncrease}>
+          <ThemedText style={styles.stepText}>+</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 15,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 18,
+    lineHeight: 22,
+  },
+  value: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 15,
+  },
+});
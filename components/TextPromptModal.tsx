@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+interface TextPromptModalProps {
+  visible: boolean;
+  title: string;
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel?: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+// Cross-platform replacement for Alert.prompt, which only exists on iOS
+export function TextPromptModal({
+  visible,
+  title,
+  initialValue = '',
+  placeholder,
+  submitLabel = 'Save',
+  onSubmit,
+  onCancel,
+}: TextPromptModalProps) {
+  const [value, setValue] = useState(initialValue);
+  const theme = useColorScheme() ?? 'light';
+
+  // Reset the field every time the prompt opens
+  useEffect(() => {
+    if (visible) {
+      setValue(initialValue);
+    }
+  }, [visible, initialValue]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <ThemedView style={styles.dialog}>
+          <ThemedText type="subtitle">{title}</ThemedText>
+
+          <TextInput
+            style={[styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+            value={value}
+            onChangeText={setValue}
+            placeholder={placeholder}
+            placeholderTextColor={Colors[theme].icon}
+            autoFocus
+            onSubmitEditing={() => onSubmit(value)}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.action} onPress={onCancel}>
+              <ThemedText>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.action} onPress={() => onSubmit(value)}>
+              <ThemedText type="defaultSemiBold" style={{ color: Colors[theme].tint }}>
+                {submitLabel}
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    borderRadius: 10,
+    padding: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 5,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginVertical: 15,
+    fontSize: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  action: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+});
@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import {
+  PanResponder,
+  StyleSheet,
+  View,
+  type GestureResponderEvent,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+
+import { Waveform } from '@/components/Waveform';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+interface TrimSelectorProps {
+  levels: number[];
+  durationMillis: number;
+  startMillis: number;
+  endMillis: number;
+  // Reported continuously while a handle is dragged
+  onChange: (startMillis: number, endMillis: number) => void;
+  // Playhead drawn over the waveform, e.g. while previewing
+  positionMillis?: number | null;
+  // Handles can't be dragged closer together than this
+  minimumMillis?: number;
+  height?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Waveform with start and end handles. A drag moves whichever handle is nearer the finger.
+export function TrimSelector({
+  levels,
+  durationMillis,
+  startMillis,
+  endMillis,
+  onChange,
+  positionMillis = null,
+  minimumMillis = 100,
+  height = 96,
+  style,
+}: TrimSelectorProps) {
+  const theme = useColorScheme() ?? 'light';
+  const [width, setWidth] = useState(0);
+
+  // The responder is created once, so it reads the latest props through a ref
+  const latest = useRef({ width, durationMillis, startMillis, endMillis, minimumMillis, onChange });
+  latest.current = { width, durationMillis, startMillis, endMillis, minimumMillis, onChange };
+  const drag = useRef<{ handle: 'start' | 'end'; x: number }>({ handle: 'start', x: 0 });
+
+  const millisAt = (x: number) => {
+    const { width, durationMillis } = latest.current;
+    return width > 0 ? Math.min(1, Math.max(0, x / width)) * durationMillis : 0;
+  };
+
+  const moveHandle = (x: number) => {
+    const { startMillis, endMillis, minimumMillis, onChange } = latest.current;
+    const millis = millisAt(x);
+    if (drag.current.handle === 'start') {
+      onChange(Math.min(millis, endMillis - minimumMillis), endMillis);
+    } else {
+      onChange(startMillis, Math.max(millis, startMillis + minimumMillis));
+    }
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event: GestureResponderEvent) => {
+        const x = event.nativeEvent.locationX;
+        const { startMillis, endMillis } = latest.current;
+        const millis = millisAt(x);
+        drag.current = {
+          handle: Math.abs(millis - startMillis) <= Math.abs(millis - endMillis) ? 'start' : 'end',
+          x,
+        };
+        moveHandle(x);
+      },
+      onPanResponderMove: (_event, gesture) => moveHandle(drag.current.x + gesture.dx),
+    })
+  ).current;
+
+  const percent = (millis: number) =>
+    `${(durationMillis > 0 ? Math.min(1, Math.max(0, millis / durationMillis)) : 0) * 100}%` as const;
+  const tint = Colors[theme].tint;
+
+  return (
+    <View
+      style={[styles.container, { height }, style]}
+      onLayout={event => setWidth(event.nativeEvent.layout.width)}
+      {...panResponder.panHandlers}
+    >
+      <Waveform levels={levels} height={height} style={StyleSheet.absoluteFill} />
+
+      {/* Dim what will be cut away */}
+      <View pointerEvents="none" style={[styles.cut, { left: 0, width: percent(startMillis) }]} />
+      <View pointerEvents="none" style={[styles.cut, { left: percent(endMillis), right: 0 }]} />
+
+      {positionMillis !== null && (
+        <View
+          pointerEvents="none"
+          style={[styles.playhead, { left: percent(positionMillis), backgroundColor: Colors[theme].text }]}
+        />
+      )}
+
+      {[startMillis, endMillis].map((millis, index) => (
+        <View key={index} pointerEvents="none" style={[styles.handle, { left: percent(millis) }]}>
+          <View style={[styles.handleBar, { backgroundColor: tint }]} />
+          <View style={[styles.handleGrip, { backgroundColor: tint }]} />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const HANDLE_WIDTH = 16;
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+  },
+  cut: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+  },
+  handle: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: HANDLE_WIDTH,
+    marginLeft: -HANDLE_WIDTH / 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  handleBar: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 3,
+  },
+  handleGrip: {
+    width: HANDLE_WIDTH,
+    height: 24,
+    borderRadius: 4,
+  },
+});
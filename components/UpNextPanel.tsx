@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { SleepTimerPicker } from '@/components/SleepTimerPicker';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { QueueItem, SleepTimer, SleepTimerChoice } from '@/services/PlaybackController';
+import { RepeatMode } from '@/utils/playbackQueue';
+
+interface UpNextPanelProps {
+  nowPlaying: QueueItem | null;
+  upNext: QueueItem[];
+  repeatMode: RepeatMode;
+  shuffle: boolean;
+  onNext: () => void;
+  onPrevious: () => void;
+  onRemove: (itemId: string) => void;
+  onRepeatModeChange: (mode: RepeatMode) => void;
+  onShuffleChange: (shuffle: boolean) => void;
+  sleepTimer: SleepTimer | null;
+  onSleepTimerChange: (choice: SleepTimerChoice | null) => void;
+  formatTime: (millis: number) => string;
+}
+
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+
+// Queue controls docked under the list, expands to show what plays next
+export function UpNextPanel({
+  nowPlaying,
+  upNext,
+  repeatMode,
+  shuffle,
+  onNext,
+  onPrevious,
+  onRemove,
+  onRepeatModeChange,
+  onShuffleChange,
+  sleepTimer,
+  onSleepTimerChange,
+  formatTime,
+}: UpNextPanelProps) {
+  const theme = useColorScheme() ?? 'light';
+  const [expanded, setExpanded] = useState(false);
+  const [showSleepTimer, setShowSleepTimer] = useState(false);
+  const activeColor = Colors[theme].tint;
+  const inactiveColor = Colors[theme].icon;
+
+  return (
+    <ThemedView style={[styles.container, { borderTopColor: Colors[theme].icon }]}>
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.control} onPress={() => onShuffleChange(!shuffle)}>
+          <IconSymbol name="shuffle" size={20} color={shuffle ? activeColor : inactiveColor} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.control} onPress={onPrevious}>
+          <IconSymbol name="backward.end.fill" size={20} color={activeColor} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.summary} onPress={() => setExpanded(shown => !shown)}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            {nowPlaying?.title ?? 'Nothing playing'}
+          </ThemedText>
+          <ThemedText style={styles.upNextCount}>
+            {upNext.length > 0 ? `Up next: ${upNext.length}` : 'Nothing up next'}
+          </ThemedText>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.control} onPress={onNext}>
+          <IconSymbol name="forward.end.fill" size={20} color={activeColor} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.control} onPress={() => onRepeatModeChange(NEXT_REPEAT_MODE[repeatMode])}>
+          <IconSymbol
+            name={repeatMode === 'one' ? 'repeat.1' : 'repeat'}
+            size={20}
+            color={repeatMode === 'off' ? inactiveColor : activeColor}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.control} onPress={() => setShowSleepTimer(shown => !shown)}>
+          <IconSymbol name="moon.zzz.fill" size={20} color={sleepTimer ? activeColor : inactiveColor} />
+        </TouchableOpacity>
+      </View>
+
+      {showSleepTimer && (
+        <SleepTimerPicker
+          timer={sleepTimer}
+          formatTime={formatTime}
+          onSelect={choice => {
+            onSleepTimerChange(choice);
+            setShowSleepTimer(false);
+          }}
+        />
+      )}
+
+      {expanded && upNext.length > 0 && (
+        <ScrollView style={styles.list}>
+          {upNext.map((item, index) => (
+            <View key={item.id} style={styles.row}>
+              <ThemedText style={styles.position}>{index + 1}</ThemedText>
+              <ThemedText style={styles.title} numberOfLines={1}>{item.title}</ThemedText>
+              <TouchableOpacity style={styles.control} onPress={() => onRemove(item.id)}>
+                <IconSymbol name="xmark" size={16} color={inactiveColor} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  control: {
+    padding: 8,
+  },
+  summary: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 6,
+  },
+  upNextCount: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  list: {
+    maxHeight: 180,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  position: {
+    width: 28,
+    textAlign: 'center',
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, Switch, View } from 'react-native';
+
+import { Stepper } from '@/components/Stepper';
+import { ThemedText } from '@/components/ThemedText';
+import { Settings } from '@/services/SettingsService';
+
+type VoiceActivationFields = Pick<Settings, 'voiceActivated' | 'voiceThresholdDb' | 'silenceTimeout' | 'silenceAction'>;
+
+interface VoiceActivationSettingsProps {
+  settings: VoiceActivationFields;
+  onChange: (changes: Partial<VoiceActivationFields>) => void;
+}
+
+export function VoiceActivationSettings({ settings, onChange }: VoiceActivationSettingsProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <ThemedText style={styles.label}>Voice activated</ThemedText>
+        <Switch
+          value={settings.voiceActivated}
+          onValueChange={voiceActivated => onChange({ voiceActivated })}
+        />
+      </View>
+
+      {settings.voiceActivated && (
+        <>
+          <Stepper
+            label="Start above"
+            value={`${settings.voiceThresholdDb} dB`}
+            onDecrease={() => onChange({ voiceThresholdDb: Math.max(-60, settings.voiceThresholdDb - 5) })}
+            onIncrease={() => onChange({ voiceThresholdDb: Math.min(-10, settings.voiceThresholdDb + 5) })}
+          />
+          <Stepper
+            label="Silence timeout"
+            value={`${settings.silenceTimeout} s`}
+            onDecrease={() => onChange({ silenceTimeout: Math.max(1, settings.silenceTimeout - 1) })}
+            onIncrease={() => onChange({ silenceTimeout: Math.min(30, settings.silenceTimeout + 1) })}
+          />
+          <View style={styles.row}>
+            <ThemedText style={styles.label}>Split into new files</ThemedText>
+            <Switch
+              value={settings.silenceAction === 'split'}
+              onValueChange={split => onChange({ silenceAction: split ? 'split' : 'stop' })}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginTop: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+interface WaveformProps {
+  // Levels between 0 and 1, oldest first
+  levels: number[];
+  height?: number;
+  // When set, only the most recent bars are drawn so the waveform scrolls as levels arrive
+  maxBars?: number;
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function Waveform({ levels, height = 40, maxBars, color, style }: WaveformProps) {
+  const theme = useColorScheme() ?? 'light';
+  const visible = maxBars ? levels.slice(-maxBars) : levels;
+  const barColor = color ?? Colors[theme].tint;
+
+  return (
+    <View style={[styles.container, { height }, style]}>
+      {visible.map((level, index) => (
+        <View
+          key={index}
+          style={[
+            styles.bar,
+            {
+              // Keep silent stretches visible as a thin line
+              height: Math.max(1, level * height),
+              backgroundColor: barColor,
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  bar: {
+    flex: 1,
+    maxWidth: 4,
+    marginHorizontal: 0.5,
+    borderRadius: 1,
+  },
+});
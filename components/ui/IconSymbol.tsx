@@ -18,6 +18,18 @@ const MAPPING = {
   'play.fill': 'play-arrow',
   'pause.fill': 'pause',
   'trash.fill': 'delete',
+  'bookmark.fill': 'bookmark',
+  'gobackward.15': 'fast-rewind',
+  'goforward.15': 'fast-forward',
+  'shuffle': 'shuffle',
+  'repeat': 'repeat',
+  'repeat.1': 'repeat-one',
+  'forward.end.fill': 'skip-next',
+  'backward.end.fill': 'skip-previous',
+  'text.badge.plus': 'playlist-add',
+  'xmark': 'close',
+  'moon.zzz.fill': 'bedtime',
+  'scissors': 'content-cut',
 } as const;
 
 export type IconSymbolName = keyof typeof MAPPING;
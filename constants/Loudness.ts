@@ -0,0 +1,24 @@
+import { NormalizationTarget } from '@/utils/loudness';
+
+// Targets offered when normalizing. -16 LUFS suits speech on phones, -23 LUFS is the EBU broadcast level.
+export const NORMALIZATION_TARGETS: NormalizationTarget[] = [
+  { mode: 'peak', peakDb: -1 },
+  { mode: 'lufs', lufs: -14 },
+  { mode: 'lufs', lufs: -16 },
+  { mode: 'lufs', lufs: -19 },
+  { mode: 'lufs', lufs: -23 },
+];
+
+export const DEFAULT_NORMALIZATION_TARGET: NormalizationTarget = { mode: 'lufs', lufs: -16 };
+
+// The limiter keeps normalized audio this far below full scale
+export const LIMITER_CEILING_DB = -1;
+
+// e.g. "-16 LUFS" or "Peak -1 dBFS"
+export function formatNormalizationTarget(target: NormalizationTarget) {
+  return target.mode === 'peak' ? `Peak ${target.peakDb} dBFS` : `${target.lufs} LUFS`;
+}
+
+export function isSameNormalizationTarget(a: NormalizationTarget, b: NormalizationTarget) {
+  return formatNormalizationTarget(a) === formatNormalizationTarget(b);
+}
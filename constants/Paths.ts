@@ -0,0 +1,17 @@
+/**
+ * Locations of the files the app keeps in its document directory.
+ * Only filenames are persisted in metadata, since the document directory path can change between app updates on iOS.
+ */
+
+import * as FileSystem from 'expo-file-system';
+
+export const Paths = {
+  recordings: `${FileSystem.documentDirectory}recordings/`,
+  // Untouched originals of edited recordings, under the same filenames
+  sources: `${FileSystem.documentDirectory}sources/`,
+  // Files written for sharing, such as FLAC exports
+  exports: `${FileSystem.documentDirectory}exports/`,
+  manifest: `${FileSystem.documentDirectory}recordings.json`,
+  settings: `${FileSystem.documentDirectory}settings.json`,
+  journal: `${FileSystem.documentDirectory}recording-journal.json`,
+};
@@ -0,0 +1,18 @@
+// Speeds offered for playback. expo-av accepts anything from 0.5 to 3 on every platform.
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 3;
+export const DEFAULT_PLAYBACK_RATE = 1;
+
+export function clampPlaybackRate(rate: number) {
+  if (!Number.isFinite(rate)) {
+    return DEFAULT_PLAYBACK_RATE;
+  }
+  return Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+}
+
+// e.g. "1.5×"
+export function formatPlaybackRate(rate: number) {
+  return `${rate}×`;
+}
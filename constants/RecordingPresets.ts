@@ -0,0 +1,167 @@
+/**
+ * Recording quality presets offered on the Record screen.
+ * Each preset resolves to the `Audio.Recording` options for the current platform together with a
+ * description of the file that will actually be produced, which is stored in the recording's metadata.
+ */
+
+import { Audio } from 'expo-av';
+import { Platform } from 'react-native';
+
+export type RecordingPresetId = 'voice' | 'standard' | 'lossless';
+
+export interface RecordingFormat {
+  presetId?: RecordingPresetId;
+  container: 'wav' | 'm4a' | 'webm';
+  codec: 'pcm' | 'aac' | 'opus';
+  mimeType: string;
+  sampleRate: number;
+  channels: number;
+  // Bits per second, compressed formats only
+  bitRate?: number;
+  // Bits per sample, PCM only
+  bitDepth?: number;
+}
+
+export interface RecordingPreset {
+  id: RecordingPresetId;
+  label: string;
+  description: string;
+}
+
+export interface ResolvedRecordingPreset {
+  options: Audio.RecordingOptions;
+  format: RecordingFormat;
+  extension: string;
+}
+
+// The best quality each platform can record: PCM WAV on iOS, high bitrate AAC elsewhere
+export const DEFAULT_RECORDING_PRESET: RecordingPresetId = 'lossless';
+
+export const RecordingPresets: RecordingPreset[] = [
+  {
+    id: 'voice',
+    label: 'Voice memo',
+    description: 'Mono 16 kHz AAC, smallest files',
+  },
+  {
+    id: 'standard',
+    label: 'Standard',
+    description: 'AAC 44.1 kHz stereo',
+  },
+  {
+    id: 'lossless',
+    // Only iOS records PCM, so the label elsewhere names the compressed format actually used
+    label: Platform.select({ ios: 'Lossless', web: 'High quality (Opus)', default: 'High quality (AAC)' }),
+    description: Platform.select({
+      ios: 'PCM WAV 48 kHz, required for editing',
+      web: 'High bitrate Opus 48 kHz, PCM WAV is only available on iOS',
+      default: 'High bitrate AAC 48 kHz, PCM WAV is only available on iOS',
+    }),
+  },
+];
+
+const EXTENSIONS: Record<RecordingFormat['container'], string> = {
+  wav: '.wav',
+  m4a: '.m4a',
+  webm: '.webm',
+};
+
+// Compressed AAC in an MPEG-4 container is the only format every platform can record natively
+function aac(sampleRate: number, channels: number, bitRate: number): Audio.RecordingOptions {
+  return {
+    android: {
+      extension: '.m4a',
+      outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+      audioEncoder: Audio.AndroidAudioEncoder.AAC,
+      sampleRate,
+      numberOfChannels: channels,
+      bitRate,
+    },
+    ios: {
+      extension: '.m4a',
+      outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+      audioQuality: Audio.IOSAudioQuality.HIGH,
+      sampleRate,
+      numberOfChannels: channels,
+      bitRate,
+    },
+    web: {
+      mimeType: 'audio/webm',
+      bitsPerSecond: bitRate,
+    },
+  };
+}
+
+function aacFormat(presetId: RecordingPresetId, sampleRate: number, channels: number, bitRate: number): RecordingFormat {
+  if (Platform.OS === 'web') {
+    // Browsers record Opus in WebM regardless of the requested rate
+    return { presetId, container: 'webm', codec: 'opus', mimeType: 'audio/webm', sampleRate: 48000, channels, bitRate };
+  }
+  return { presetId, container: 'm4a', codec: 'aac', mimeType: 'audio/mp4', sampleRate, channels, bitRate };
+}
+
+// Resolve a preset into recording options and the format it produces on this platform
+export function resolveRecordingPreset(id: RecordingPresetId): ResolvedRecordingPreset {
+  let options: Audio.RecordingOptions;
+  let format: RecordingFormat;
+
+  switch (id) {
+    case 'voice':
+      options = aac(16000, 1, 32000);
+      format = aacFormat(id, 16000, 1, 32000);
+      break;
+    case 'standard':
+      options = aac(44100, 2, 128000);
+      format = aacFormat(id, 44100, 2, 128000);
+      break;
+    case 'lossless':
+    default:
+      if (Platform.OS === 'ios') {
+        options = {
+          ...aac(48000, 2, 256000),
+          ios: {
+            extension: '.wav',
+            outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+            audioQuality: Audio.IOSAudioQuality.MAX,
+            sampleRate: 48000,
+            numberOfChannels: 2,
+            bitRate: 48000 * 2 * 16,
+            linearPCMBitDepth: 16,
+            linearPCMIsBigEndian: false,
+            linearPCMIsFloat: false,
+          },
+        };
+        format = {
+          presetId: 'lossless',
+          container: 'wav',
+          codec: 'pcm',
+          mimeType: 'audio/wav',
+          sampleRate: 48000,
+          channels: 2,
+          bitDepth: 16,
+        };
+      } else {
+        // Android's MediaRecorder cannot write PCM, so fall back to the best AAC it offers
+        options = aac(48000, 2, 256000);
+        format = aacFormat('lossless', 48000, 2, 256000);
+      }
+      break;
+  }
+
+  return { options, format, extension: EXTENSIONS[format.container] };
+}
+
+export function getRecordingPreset(id: RecordingPresetId | undefined) {
+  return RecordingPresets.find(preset => preset.id === id)
+    ?? RecordingPresets.find(preset => preset.id === DEFAULT_RECORDING_PRESET)!;
+}
+
+// Human readable summary such as "AAC 44.1 kHz stereo" or "PCM 16-bit 48 kHz mono"
+export function describeRecordingFormat(format: RecordingFormat) {
+  const codec = format.codec === 'pcm'
+    ? `PCM${format.bitDepth ? ` ${format.bitDepth}-bit` : ''}`
+    : format.codec.toUpperCase();
+  const rate = format.sampleRate > 0 ? ` ${format.sampleRate / 1000} kHz` : '';
+  const channels = format.channels === 1 ? ' mono' : format.channels === 2 ? ' stereo' : '';
+  return `${codec}${rate}${channels}`;
+}
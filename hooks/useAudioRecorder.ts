@@ -1,235 +1,124 @@
 import { useState, useEffect } from 'react';
-import { Audio } from 'expo-av';
-import * as FileSystem from 'expo-file-system';
-
-export interface Recording {
-  id: string;
-  uri: string;
-  fileName: string;
-  duration: number;
-  createdAt: Date;
-}
+
+import { useRecordings } from '@/hooks/useRecordings';
+import AudioService, { StoppedRecording } from '@/services/AudioService';
+import VoiceActivatedRecorder from '@/services/VoiceActivatedRecorder';
+import { dbfsToLevel } from '@/utils/metering';
+
+// Number of recent metering samples kept for the scrolling waveform
+const LIVE_WAVEFORM_SAMPLES = 80;
 
 export function useAudioRecorder() {
-  const [recording, setRecording] = useState<Audio.Recording | null>(null);
-  const [recordings, setRecordings] = useState<Recording[]>([]);
-  const [isRecording, setIsRecording] = useState(false);
-  const [permissionResponse, setPermissionResponse] = useState<Audio.PermissionResponse | null>(null);
+  const { recordings, refresh } = useRecordings();
+  const [recorderState, setRecorderState] = useState(AudioService.getRecorderState());
+  const [isArmed, setIsArmed] = useState(VoiceActivatedRecorder.isArmed());
+  const [permissionGranted, setPermissionGranted] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
-  const [startTime, setStartTime] = useState<number | null>(null);
+  const [meteringDb, setMeteringDb] = useState<number | null>(null);
+  const [levels, setLevels] = useState<number[]>([]);
+
+  const isRecording = recorderState === 'recording' || recorderState === 'paused';
+  const isPaused = recorderState === 'paused';
 
   useEffect(() => {
-    // Request permissions and load existing recordings when component mounts
-    (async () => {
-      const permission = await Audio.requestPermissionsAsync();
-      setPermissionResponse(permission);
-      
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-      });
-      
-      loadRecordings();
-    })();
+    // Check for recording permissions when component mounts
+    AudioService.requestPermission().then(granted => {
+      setPermissionGranted(granted);
+    });
   }, []);
 
-  // Update recording duration while recording
+  // Recording can also be started and stopped by voice activation, so follow the service
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (isRecording && startTime) {
-      interval = setInterval(() => {
-        const now = Date.now();
-        setRecordingDuration(now - startTime);
-      }, 100);
-    } else {
-      setRecordingDuration(0);
-    }
-    
+    const unsubscribeState = AudioService.subscribeToRecorderState(state => {
+      setRecorderState(state);
+      if (state === 'idle' || state === 'paused') {
+        setMeteringDb(null);
+      }
+      if (state === 'idle') {
+        setRecordingDuration(0);
+        setLevels([]);
+      }
+    });
+    const unsubscribeArmed = VoiceActivatedRecorder.subscribe(setIsArmed);
+
     return () => {
-      if (interval) clearInterval(interval);
+      unsubscribeState();
+      unsubscribeArmed();
     };
-  }, [isRecording, startTime]);
-
-  const loadRecordings = async () => {
-    try {
-      const recordingsDir = `${FileSystem.documentDirectory}recordings/`;
-      const dirInfo = await FileSystem.getInfoAsync(recordingsDir);
-      
-      if (!dirInfo.exists) {
-        await FileSystem.makeDirectoryAsync(recordingsDir, { intermediates: true });
-        setRecordings([]);
+  }, []);
+
+  // Follow the input meter and duration of the active recording
+  useEffect(() => {
+    return AudioService.subscribeToRecordingStatus(status => {
+      if (!status.isRecording) {
         return;
       }
-      
-      const files = await FileSystem.readDirectoryAsync(recordingsDir);
-      const wavFiles = files.filter(file => file.endsWith('.wav'));
-      
-      const recordingFiles = await Promise.all(
-        wavFiles.map(async (fileName) => {
-          const fileInfo = await FileSystem.getInfoAsync(`${recordingsDir}${fileName}`);
-          const parts = fileName.split('_');
-          let id, timestamp, duration;
-          
-          try {
-            id = parts[0];
-            timestamp = Number(parts[1].replace('.wav', ''));
-            duration = parts.length > 2 ? Number(parts[2]) : 0;
-          } catch (e) {
-            // If filename parsing fails, use fallbacks
-            console.warn('Error parsing filename:', fileName);
-            id = fileName;
-            // Use creation time from file stats if available, otherwise current time
-            // FileInfo doesn't have modificationTime, so we'll use current time as fallback
-            timestamp = Date.now(); 
-            duration = 0;
-          }
-          
-          return {
-            id,
-            uri: fileInfo.uri,
-            fileName,
-            duration,
-            createdAt: new Date(timestamp),
-          };
-        })
-      );
-      
-      console.log(`Found ${recordingFiles.length} recordings`);
-      setRecordings(recordingFiles.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
-    } catch (error) {
-      console.error('Failed to load recordings:', error);
-    }
-  };
+      if (AudioService.getRecorderState() === 'recording') {
+        // The recorder's own duration already leaves out paused time
+        setRecordingDuration(status.durationMillis);
+      }
+      if (status.metering !== undefined) {
+        const db = status.metering;
+        setMeteringDb(db);
+        setLevels(current => [...current.slice(-(LIVE_WAVEFORM_SAMPLES - 1)), dbfsToLevel(db)]);
+      }
+    });
+  }, []);
 
   const startRecording = async () => {
-    try {
-      if (permissionResponse && !permissionResponse.granted) {
-        console.log('No recording permission');
-        return;
-      }
-      
-      // Configure audio session for recording - simplified without interruption modes
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-      });
-      
-      console.log('Starting recording...');
-      const { recording } = await Audio.Recording.createAsync(
-        {
-          ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
-          android: {
-            ...Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
-            extension: '.wav',
-            outputFormat: Audio.AndroidOutputFormat.DEFAULT,
-            audioEncoder: Audio.AndroidAudioEncoder.DEFAULT,
-          },
-          ios: {
-            ...Audio.RecordingOptionsPresets.HIGH_QUALITY.ios,
-            extension: '.wav',
-            outputFormat: Audio.IOSOutputFormat.LINEARPCM,
-            linearPCMBitDepth: 16,
-            linearPCMIsBigEndian: false,
-            linearPCMIsFloat: false,
-          },
-          web: {
-            ...Audio.RecordingOptionsPresets.HIGH_QUALITY.web,
-            mimeType: 'audio/wav',
-          }
-        }
-      );
-      
-      setStartTime(Date.now());
-      setRecording(recording);
-      setIsRecording(true);
-    } catch (error) {
-      console.error('Failed to start recording:', error);
-    }
+    setLevels([]);
+    return AudioService.startRecording();
   };
 
-  const stopRecording = async () => {
-    if (!recording) return;
-    
-    try {
-      console.log('Stopping recording...');
-      setIsRecording(false);
-      const duration = recordingDuration;
-      setStartTime(null);
-      
-      await recording.stopAndUnloadAsync();
-      
-      const uri = recording.getURI();
-      if (!uri) {
-        console.error('No recording URI available');
-        return;
-      }
-      
-      console.log(`Recording stopped, URI: ${uri}`);
-      
-      // Check if the file exists and has data
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      if (!fileInfo.exists || fileInfo.size === 0) {
-        console.error('Recording file is missing or empty:', uri);
-        return;
-      }
-      console.log(`Recording file size: ${fileInfo.size} bytes`);
-      
-      const id = Date.now().toString();
-      const timestamp = Date.now();
-      const fileName = `${id}_${timestamp}_${Math.round(duration)}.wav`;
-      const recordingsDir = `${FileSystem.documentDirectory}recordings/`;
-      
-      // Ensure directory exists
-      const dirInfo = await FileSystem.getInfoAsync(recordingsDir);
-      if (!dirInfo.exists) {
-        await FileSystem.makeDirectoryAsync(recordingsDir, { intermediates: true });
-      }
-      
-      // Copy the file to our app's documents directory with a .wav extension
-      const destinationUri = `${recordingsDir}${fileName}`;
-      console.log(`Copying recording to: ${destinationUri}`);
-      await FileSystem.copyAsync({
-        from: uri,
-        to: destinationUri
-      });
-      
-      // Verify the copied file exists
-      const destFileInfo = await FileSystem.getInfoAsync(destinationUri);
-      if (destFileInfo.exists) {
-        console.log(`File saved successfully, size: ${destFileInfo.size} bytes`);
-      }
-      
-      // After saving, reload all recordings
-      await loadRecordings();
-      
-      setRecording(null);
-    } catch (error) {
-      console.error('Failed to stop recording:', error);
-      setIsRecording(false);
-      setRecording(null);
+  const pauseRecording = () => AudioService.pauseRecording();
+
+  const resumeRecording = () => AudioService.resumeRecording();
+
+  // The saved recording reaches every useRecordings subscriber through the store
+  const stopRecording = async (): Promise<StoppedRecording | null> => {
+    if (VoiceActivatedRecorder.isArmed()) {
+      return VoiceActivatedRecorder.disarm();
     }
+    return AudioService.stopRecording();
   };
 
+  // Wait for voice before recording
+  const armRecording = () => VoiceActivatedRecorder.arm();
+
+  const disarmRecording = () => VoiceActivatedRecorder.disarm();
+
+  // Mark the current moment, the label can be filled in afterwards
+  const markRecording = () => AudioService.markRecording();
+
+  const labelBookmark = (bookmarkId: string, label: string) => AudioService.labelBookmark(bookmarkId, label);
+
   const deleteRecording = async (id: string) => {
-    try {
-      const recordingToDelete = recordings.find(r => r.id === id);
-      if (recordingToDelete) {
-        await FileSystem.deleteAsync(recordingToDelete.uri);
-        setRecordings(recordings.filter(r => r.id !== id));
-      }
-    } catch (error) {
-      console.error('Failed to delete recording:', error);
+    const recordingToDelete = recordings.find(r => r.id === id);
+    if (recordingToDelete) {
+      await AudioService.deleteRecording(recordingToDelete);
     }
   };
 
   return {
     isRecording,
+    isPaused,
+    isArmed,
+    isMonitoring: recorderState === 'monitoring',
+    permissionGranted,
     startRecording,
+    pauseRecording,
+    resumeRecording,
     stopRecording,
+    armRecording,
+    disarmRecording,
+    markRecording,
+    labelBookmark,
     recordings,
-    loadRecordings,
+    loadRecordings: refresh,
     deleteRecording,
+    renameRecording: AudioService.renameRecording.bind(AudioService),
     recordingDuration,
+    meteringDb,
+    levels,
   };
 }
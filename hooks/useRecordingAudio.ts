@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+
+import type { AudioFile } from '@/services/AudioService';
+import RecordingEditor from '@/services/RecordingEditor';
+import RecordingStore from '@/services/RecordingStore';
+import { WavAudio } from '@/utils/wav';
+
+// Decoded samples of a recording for the editor. Call reload after the file was rewritten.
+export function useRecordingAudio(recording: AudioFile | null) {
+  const recordingId = recording?.id ?? null;
+  const [audio, setAudio] = useState<WavAudio | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    // Other changes to the recording, like its saved position, don't touch the samples
+    const current = recordingId ? RecordingStore.getRecording(recordingId) : null;
+    if (!current) {
+      setAudio(null);
+      setIsLoading(false);
+      return;
+    }
+
+    // Ignore a slow read that finishes after a newer one was started
+    let cancelled = false;
+    setIsLoading(true);
+    RecordingEditor.readAudio(current).then(decoded => {
+      if (!cancelled) {
+        setAudio(decoded);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId, revision]);
+
+  return {
+    audio,
+    isLoading,
+    reload: () => setRevision(value => value + 1),
+  };
+}
@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { Alert } from 'react-native';
+
+import AudioService from '@/services/AudioService';
+import { JournalEntry } from '@/services/RecordingJournal';
+
+// On launch, offer to recover recordings that were cut off when the app was killed
+export function useRecordingRecovery() {
+  useEffect(() => {
+    let cancelled = false;
+
+    AudioService.findUnfinishedRecordings().then(entries => {
+      if (cancelled || entries.length === 0) {
+        return;
+      }
+
+      const message = entries.length === 1
+        ? 'A recording was interrupted before it could be saved. Recover what was captured?'
+        : `${entries.length} recordings were interrupted before they could be saved. Recover what was captured?`;
+
+      Alert.alert('Recover Recording', message, [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => forEachEntry(entries, entry => AudioService.discardUnfinishedRecording(entry)),
+        },
+        {
+          text: 'Recover',
+          onPress: () => forEachEntry(entries, entry => AudioService.recoverRecording(entry)),
+        },
+      ]);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+}
+
+// Handle entries one at a time, each one rewrites the journal
+async function forEachEntry(entries: JournalEntry[], action: (entry: JournalEntry) => Promise<unknown>) {
+  for (const entry of entries) {
+    await action(entry);
+  }
+}
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+
+import RecordingStore from '@/services/RecordingStore';
+
+// Subscribe to the shared recordings store. The first subscriber triggers the initial load.
+export function useRecordings() {
+  const [recordings, setRecordings] = useState(RecordingStore.getRecordings());
+  const [isLoading, setIsLoading] = useState(!RecordingStore.isLoaded());
+
+  useEffect(() => {
+    const unsubscribe = RecordingStore.subscribe(setRecordings);
+
+    // Pick up anything that changed between the first render and subscribing
+    setRecordings(RecordingStore.getRecordings());
+
+    if (!RecordingStore.isLoaded()) {
+      RecordingStore.refresh().finally(() => setIsLoading(false));
+    }
+
+    return unsubscribe;
+  }, []);
+
+  return {
+    recordings,
+    isLoading,
+    refresh: () => RecordingStore.refresh(),
+  };
+}
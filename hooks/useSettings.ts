@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+
+import SettingsService, { Settings } from '@/services/SettingsService';
+
+export function useSettings() {
+  const [settings, setSettings] = useState(SettingsService.get());
+
+  useEffect(() => {
+    const unsubscribe = SettingsService.subscribe(setSettings);
+    SettingsService.load().then(setSettings);
+    return unsubscribe;
+  }, []);
+
+  return {
+    settings,
+    updateSettings: (changes: Partial<Settings>) => SettingsService.update(changes),
+  };
+}
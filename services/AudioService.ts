@@ -1,25 +1,180 @@
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
 
+import { Paths } from '@/constants/Paths';
+import { clampPlaybackRate } from '@/constants/PlaybackRates';
+import { RecordingFormat, resolveRecordingPreset, ResolvedRecordingPreset } from '@/constants/RecordingPresets';
+import PlaybackController from '@/services/PlaybackController';
+import RecordingEditor from '@/services/RecordingEditor';
+import RecordingIndex from '@/services/RecordingIndex';
+import RecordingJournal, { JournalEntry } from '@/services/RecordingJournal';
+import RecordingStore from '@/services/RecordingStore';
+import SettingsService, { silenceTrimOptions } from '@/services/SettingsService';
+import WavFiles from '@/services/WavFiles';
+import { FadeCurve, offsetBookmarks } from '@/utils/audioEdit';
+import { markersOf, RecordingMarkers, updateListMarkers } from '@/utils/editList';
+import type { LoudnessMeasurement } from '@/utils/loudness';
+import { dbfsToLevel, downsamplePeaks } from '@/utils/metering';
+import type { CleanupOptions } from '@/utils/noiseReduction';
+import { convertsAnything } from '@/utils/resample';
+import { WavInfo, WavSegment, wavSegments } from '@/utils/wav';
+
 export interface AudioFile {
   id: string;
   uri: string;
   filename: string;
+  title: string;
+  // Milliseconds
   duration: number;
+  // Bytes
+  size: number;
+  // Zero when the file has no readable WAV header
+  sampleRate: number;
+  channels: number;
   createdAt: Date;
+  // What the file actually contains, including the preset it was recorded with
+  format: RecordingFormat;
+  // Peak levels (0..1) captured from the input meter, for drawing a preview
+  waveform?: number[];
+  // Set on the segments of a long recording that was split automatically
+  session?: RecordingSession;
+  // Marks placed while recording or listening, sorted by position
+  bookmarks?: Bookmark[];
+  // Overrides the default playback speed from the settings
+  playbackRate?: number;
+  // Where listening stopped, so playback can pick up there
+  playbackProgress?: PlaybackProgress;
+  // A-B loop regions kept for practice or transcription
+  loops?: SavedLoop[];
+  // Set on recordings made by editing others
+  provenance?: RecordingProvenance;
+  // Levels measured from the samples, kept up to date when the file is processed
+  loudness?: LoudnessMeasurement;
+  // Set once the recording was edited; the file then holds the edits rendered onto the source
+  editList?: EditList;
+}
+
+// One step of a recording's edit list. Positions are in the audio as it was before this step.
+export type RecordingEdit =
+  | { type: 'trim'; startMillis: number; endMillis: number }
+  | { type: 'cut'; startMillis: number; endMillis: number }
+  | { type: 'gain'; gainDb: number; ceilingDb: number }
+  | { type: 'fade'; edge: 'in' | 'out'; curve: FadeCurve; durationMillis: number }
+  | { type: 'filter'; options: CleanupOptions };
+
+// Edits made to a recording, oldest first. The first `applied` are in effect; the rest were
+// undone and can be redone. The untouched source file is kept in Paths.sources, and the recording's
+// own file holds the source rendered with the edits in effect. That render is made once per edit,
+// undo or redo rather than on each play or export: the editor plays the result straight away, and
+// playback, sharing and export can keep reading the recording's file as it is.
+export interface EditList {
+  edits: RecordingEdit[];
+  applied: number;
+  // Bookmarks and loops placed on the source; the recording's own are these with the edits applied
+  markers?: RecordingMarkers;
+}
+
+export interface RecordingSession {
+  // Shared by every segment of the session
+  id: string;
+  // Zero-based position of this segment within the session
+  index: number;
+}
+
+export interface Bookmark {
+  id: string;
+  // Position within this file, not the whole session
+  positionMillis: number;
+  label?: string;
+}
+
+export interface SavedLoop {
+  id: string;
+  // Relative to the start of this file. In a session the end may run on into the next segment.
+  startMillis: number;
+  endMillis: number;
+  label?: string;
+}
+
+export interface PlaybackProgress {
+  // Position to resume from, zero once the file was played to the end
+  positionMillis: number;
+  // Furthest point ever played
+  listenedMillis: number;
+}
+
+// How an edited recording was made, and from what
+export interface RecordingProvenance {
+  operation: 'trim' | 'split' | 'merge' | 'normalize' | 'cleanup' | 'convert';
+  // In the order they were used. Titles are kept so a deleted source can still be named.
+  sources: RecordingSource[];
+}
+
+export interface RecordingSource {
+  id: string;
+  title: string;
+  // Part of the source that was used
+  startMillis: number;
+  endMillis: number;
+}
+
+// A recording just saved, and the space converting it after recording freed, zero when it wasn't converted
+export interface StoppedRecording {
+  recording: AudioFile;
+  savedBytes: number;
+}
+
+export type RecordingStatusListener = (status: Audio.RecordingStatus) => void;
+
+// 'monitoring' means the microphone is open for metering only and nothing will be saved
+export type RecorderState = 'idle' | 'monitoring' | 'recording' | 'paused';
+export type RecorderStateListener = (state: RecorderState) => void;
+
+// How often the recorder reports status and metering while recording
+const RECORDING_STATUS_INTERVAL = 100;
+
+// A recorder that has been stopped but whose file hasn't been saved into the library yet
+interface FinishedRecorder {
+  uri: string | null;
+  startedAt: Date;
+  durationMillis: number;
+  format: RecordingFormat;
+  extension: string;
+  // Audio at the start of the file that isn't kept, captured by a monitor before it became the recording
+  leadInMillis: number;
+  // Input levels (0..1), one per status update
+  levels: number[];
+  bookmarks: Bookmark[];
+}
+
+// Ids for bookmarks and loops, unique enough within one recording
+function createBookmarkId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function sortBookmarks(bookmarks: Bookmark[]) {
+  return [...bookmarks].sort((a, b) => a.positionMillis - b.positionMillis);
 }
 
 class AudioService {
   private recording: Audio.Recording | null = null;
-  private sound: Audio.Sound | null = null;
-  private recordingsDirectory = `${FileSystem.documentDirectory}recordings/`;
+  private monitor: Audio.Recording | null = null;
+  private monitorPreset: ResolvedRecordingPreset | null = null;
+  private recorderState: RecorderState = 'idle';
+  private recordingPreset: ResolvedRecordingPreset | null = null;
+  // Start of the active recorder's file that is cut off when it's saved, see recordFromMonitor
+  private leadInMillis = 0;
+  private recordingStartedAt = new Date();
+  private meteringSamples: number[] = [];
+  // Marks placed in the active recorder's file, and how far that file has got
+  private bookmarks: Bookmark[] = [];
+  private recordedMillis = 0;
+  private recordingStatusListeners = new Set<RecordingStatusListener>();
+  private recorderStateListeners = new Set<RecorderStateListener>();
   
   // Initialize the recordings directory
   async init() {
-    const dirInfo = await FileSystem.getInfoAsync(this.recordingsDirectory);
-    if (!dirInfo.exists) {
-      await FileSystem.makeDirectoryAsync(this.recordingsDirectory, { intermediates: true });
-    }
+    await RecordingIndex.init();
   }
 
   // Request microphone permission
@@ -28,215 +183,734 @@ class AudioService {
     return permission.granted;
   }
 
+  private async prepareToRecord() {
+    const permissionGranted = await this.requestPermission();
+    if (!permissionGranted) {
+      throw new Error("Microphone permission not granted");
+    }
+
+    // Playback carries on outside the Recordings screen, don't record it
+    await PlaybackController.pause();
+
+    // Simplified audio mode configuration without interruption modes
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+    });
+  }
+
+  // Open the microphone for metering, e.g. while waiting for voice. The monitor records in the
+  // user's preset so it can become the recording without a restart (see recordFromMonitor);
+  // otherwise what it captured is thrown away.
+  async startMonitoring() {
+    if (this.recorderState !== 'idle') {
+      return false;
+    }
+
+    try {
+      await this.prepareToRecord();
+      await this.createMonitor();
+      this.setRecorderState('monitoring');
+      return true;
+    } catch (error) {
+      console.error("Failed to start monitoring:", error);
+      return false;
+    }
+  }
+
+  // Start the monitor over, dropping what it captured so far
+  async restartMonitoring() {
+    if (this.recorderState !== 'monitoring') {
+      return false;
+    }
+
+    try {
+      await this.releaseMonitor();
+      await this.createMonitor();
+      return true;
+    } catch (error) {
+      console.error("Failed to restart monitoring:", error);
+      await this.stopMonitoring();
+      return false;
+    }
+  }
+
+  // Close the microphone opened by startMonitoring and delete what it captured
+  async stopMonitoring() {
+    if (!this.monitor) {
+      return;
+    }
+
+    try {
+      await this.releaseMonitor();
+    } catch (error) {
+      console.error("Failed to stop monitoring:", error);
+    } finally {
+      this.setRecorderState('idle');
+    }
+  }
+
+  private async createMonitor() {
+    const settings = await SettingsService.load();
+    const preset = resolveRecordingPreset(settings.recordingPreset);
+    this.meteringSamples = [];
+    const { recording } = await Audio.Recording.createAsync(
+      { ...preset.options, isMeteringEnabled: true },
+      status => this.handleRecordingStatus(status),
+      RECORDING_STATUS_INTERVAL
+    );
+
+    this.monitor = recording;
+    this.monitorPreset = preset;
+  }
+
+  private async releaseMonitor() {
+    const monitor = this.monitor;
+    this.monitor = null;
+    this.monitorPreset = null;
+    if (!monitor) {
+      return;
+    }
+
+    await monitor.stopAndUnloadAsync();
+    const uri = monitor.getURI();
+    if (uri) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
+
+  // Turn the running monitor into the recording, keeping the last `preRollMillis` it captured so the
+  // sound that set the recording off isn't clipped. The rest is cut off WAV files when they are
+  // saved; compressed files can't be cut and keep everything the monitor captured.
+  async recordFromMonitor(preRollMillis: number) {
+    const monitor = this.monitor;
+    const preset = this.monitorPreset;
+    if (!monitor || !preset || this.recorderState !== 'monitoring') {
+      return false;
+    }
+
+    try {
+      await this.init();
+      const status = await monitor.getStatusAsync();
+      const monitoredMillis = status.durationMillis || 0;
+      const leadInMillis = preset.format.container === 'wav' ? Math.max(0, monitoredMillis - preRollMillis) : 0;
+
+      this.monitor = null;
+      this.monitorPreset = null;
+      this.recording = monitor;
+      this.recordingPreset = preset;
+      this.leadInMillis = leadInMillis;
+      this.recordingStartedAt = new Date(Date.now() - (monitoredMillis - leadInMillis));
+      // The monitor's levels came in once per status update too
+      this.meteringSamples = this.meteringSamples.slice(Math.round(leadInMillis / RECORDING_STATUS_INTERVAL));
+      this.bookmarks = [];
+      this.recordedMillis = monitoredMillis - leadInMillis;
+
+      await this.addToJournal(monitor, preset);
+      this.setRecorderState('recording');
+      return true;
+    } catch (error) {
+      console.error("Failed to start recording:", error);
+      await this.stopMonitoring();
+      return false;
+    }
+  }
+
   // Start recording
   async startRecording() {
     try {
-      const permissionGranted = await this.requestPermission();
-      if (!permissionGranted) {
-        throw new Error("Microphone permission not granted");
-      }
+      // Only one recorder can be open at a time
+      await this.stopMonitoring();
+      await this.prepareToRecord();
+      await this.init();
 
-      // Simplified audio mode configuration without interruption modes
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-      });
+      await this.createRecorder();
+      this.setRecorderState('recording');
+      return true;
+    } catch (error) {
+      console.error("Failed to start recording:", error);
+      return false;
+    }
+  }
 
-      await this.init();
-      
-      const { recording } = await Audio.Recording.createAsync({
-        android: {
-          extension: '.wav',
-          outputFormat: Audio.AndroidOutputFormat.DEFAULT,
-          audioEncoder: Audio.AndroidAudioEncoder.DEFAULT,
-          sampleRate: 44100,
-          numberOfChannels: 2,
-          bitRate: 128000,
-        },
-        ios: {
-          extension: '.wav',
-          outputFormat: Audio.IOSOutputFormat.LINEARPCM,
-          audioQuality: Audio.IOSAudioQuality.HIGH,
-          sampleRate: 44100,
-          numberOfChannels: 2,
-          bitRate: 128000,
-          linearPCMBitDepth: 16,
-          linearPCMIsBigEndian: false,
-          linearPCMIsFloat: false,
-        },
-        web: {
-          mimeType: 'audio/wav',
-          bitsPerSecond: 128000,
-        },
+  private async createRecorder() {
+    // Use the quality preset the user picked on the Record screen
+    const settings = await SettingsService.load();
+    const preset = resolveRecordingPreset(settings.recordingPreset);
+    this.meteringSamples = [];
+    this.bookmarks = [];
+    this.recordedMillis = 0;
+    this.leadInMillis = 0;
+    const { recording } = await Audio.Recording.createAsync(
+      { ...preset.options, isMeteringEnabled: true },
+      status => this.handleRecordingStatus(status),
+      RECORDING_STATUS_INTERVAL
+    );
+
+    this.recording = recording;
+    this.recordingPreset = preset;
+    this.recordingStartedAt = new Date();
+    await this.addToJournal(recording, preset);
+  }
+
+  // Note where the audio is going so it can be recovered if the app dies before we save it
+  private async addToJournal(recording: Audio.Recording, preset: ResolvedRecordingPreset) {
+    const tempUri = recording.getURI();
+    if (tempUri) {
+      await RecordingJournal.add({
+        tempUri,
+        startedAt: this.recordingStartedAt.getTime(),
+        format: preset.format,
+        extension: preset.extension,
+        leadInMillis: this.leadInMillis || undefined,
       });
-      
-      this.recording = recording;
+    }
+  }
+
+  // Stop the active recorder and hand back what is needed to save its file
+  private async releaseRecorder(): Promise<FinishedRecorder | null> {
+    const recording = this.recording;
+    if (!recording) {
+      return null;
+    }
+
+    const preset = this.recordingPreset ?? resolveRecordingPreset(SettingsService.get().recordingPreset);
+    const levels = this.meteringSamples.map(db => dbfsToLevel(db));
+    const bookmarks = this.bookmarks;
+    const leadInMillis = this.leadInMillis;
+    this.recording = null;
+    this.recordingPreset = null;
+    this.meteringSamples = [];
+    this.bookmarks = [];
+    this.leadInMillis = 0;
+
+    await recording.stopAndUnloadAsync();
+    const status = await recording.getStatusAsync();
+    const durationMillis = Math.max(0, (status.durationMillis || 0) - leadInMillis);
+    return {
+      uri: recording.getURI(),
+      startedAt: this.recordingStartedAt,
+      durationMillis,
+      format: preset.format,
+      extension: preset.extension,
+      leadInMillis,
+      levels,
+      // A mark placed in the last moments may sit past the final duration
+      bookmarks: bookmarks.map(bookmark => ({
+        ...bookmark,
+        positionMillis: Math.min(bookmark.positionMillis, durationMillis || bookmark.positionMillis),
+      })),
+    };
+  }
+
+  // Pause recording, keeping the same output file
+  async pauseRecording() {
+    if (!this.recording || this.recorderState !== 'recording') {
+      return false;
+    }
+
+    try {
+      await this.recording.pauseAsync();
+      this.setRecorderState('paused');
       return true;
     } catch (error) {
-      console.error("Failed to start recording:", error);
+      console.error("Failed to pause recording:", error);
       return false;
     }
   }
 
+  // Resume a paused recording into the same output file
+  async resumeRecording() {
+    if (!this.recording || this.recorderState !== 'paused') {
+      return false;
+    }
+
+    try {
+      await this.recording.startAsync();
+      this.setRecorderState('recording');
+      return true;
+    } catch (error) {
+      console.error("Failed to resume recording:", error);
+      return false;
+    }
+  }
+
+  getRecorderState() {
+    return this.recorderState;
+  }
+
+  // Listen for the recorder moving between idle, monitoring, recording and paused
+  subscribeToRecorderState(listener: RecorderStateListener) {
+    this.recorderStateListeners.add(listener);
+    return () => {
+      this.recorderStateListeners.delete(listener);
+    };
+  }
+
+  private setRecorderState(state: RecorderState) {
+    this.recorderState = state;
+    this.recorderStateListeners.forEach(listener => listener(state));
+  }
+
+  // Listen for status and metering updates of the active recording or monitor
+  subscribeToRecordingStatus(listener: RecordingStatusListener) {
+    this.recordingStatusListeners.add(listener);
+    return () => {
+      this.recordingStatusListeners.delete(listener);
+    };
+  }
+
+  private handleRecordingStatus(recorderStatus: Audio.RecordingStatus) {
+    // Listeners only see the time of the audio that will be kept
+    const status = this.leadInMillis > 0 && recorderStatus.isRecording
+      ? { ...recorderStatus, durationMillis: Math.max(0, recorderStatus.durationMillis - this.leadInMillis) }
+      : recorderStatus;
+    if (this.recorderState === 'recording' && status.isRecording) {
+      this.recordedMillis = status.durationMillis;
+    }
+    // The monitor's levels are kept too, in case it becomes the recording
+    const isCapturing = this.recorderState === 'recording' || this.recorderState === 'monitoring';
+    if (isCapturing && status.isRecording && status.metering !== undefined) {
+      this.meteringSamples.push(status.metering);
+    }
+    this.recordingStatusListeners.forEach(listener => listener(status));
+  }
+
   // Stop recording
-  async stopRecording(): Promise<AudioFile | null> {
+  // Stop recording. Returns the saved recording, or its first part when it was split into segments,
+  // with the space saved by converting all of it.
+  async stopRecording(): Promise<StoppedRecording | null> {
     try {
-      if (!this.recording) {
+      const finished = await this.releaseRecorder();
+      this.setRecorderState('idle');
+
+      if (!finished) {
         return null;
       }
 
-      await this.recording.stopAndUnloadAsync();
-      const uri = this.recording.getURI();
-      const status = await this.recording.getStatusAsync();
-      this.recording = null;
-      
-      if (!uri) {
-        return null;
+      const saved = await this.saveRecording(finished);
+      if (saved.length === 1) {
+        return await this.convert(await this.trimSilence(saved[0]));
       }
 
-      // Check if file exists and has data
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      if (!fileInfo.exists || fileInfo.size === 0) {
-        console.error('Recording file is missing or empty:', uri);
+      // Parts of a split recording are left whole so they still join up, but are converted alike
+      const parts: StoppedRecording[] = [];
+      for (const part of saved) {
+        parts.push(await this.convert(part));
+      }
+      if (parts.length === 0) {
         return null;
       }
-      
-      // Create a WAV file with timestamp
-      const timestamp = Date.now();
-      const id = timestamp.toString();
-      const filename = `recording_${timestamp}.wav`;
-      const destinationUri = `${this.recordingsDirectory}${filename}`;
-
-      // Copy the recorded file to our app's documents directory
+      return { recording: parts[0].recording, savedBytes: parts.reduce((sum, part) => sum + part.savedBytes, 0) };
+    } catch (error) {
+      console.error("Failed to stop recording:", error);
+      this.recording = null;
+      this.recordingPreset = null;
+      this.setRecorderState('idle');
+      return null;
+    }
+  }
+
+  // Cut the silence off both ends of a new recording when the setting is on
+  private async trimSilence(recording: AudioFile): Promise<AudioFile> {
+    const settings = SettingsService.get();
+    if (!settings.trimSilence || !RecordingEditor.canEdit(recording)) {
+      return recording;
+    }
+
+    // The recording is already saved, so keep it as it is if trimming fails
+    return (await RecordingEditor.trimSilence(recording, silenceTrimOptions(settings))) ?? recording;
+  }
+
+  // Convert a new recording to the format from the settings when the setting is on
+  private async convert(recording: AudioFile): Promise<StoppedRecording> {
+    const settings = SettingsService.get();
+    if (
+      !settings.convertAfterRecording ||
+      !RecordingEditor.canEdit(recording) ||
+      !convertsAnything(settings.conversion, recording.sampleRate, recording.channels)
+    ) {
+      return { recording, savedBytes: 0 };
+    }
+
+    // As with trimming, the recording is already saved and stays as it is if this fails
+    const result = await RecordingEditor.convertRecording(recording, settings.conversion, 'replace');
+    return result ?? { recording, savedBytes: 0 };
+  }
+
+  // Copy a finished recorder's file into the library, without its lead-in. With segmenting on, a
+  // long WAV recording is split there into parts of whole frames, grouped as one session. The
+  // recorder ran throughout, so the parts join up with no audio missing between them.
+  private async saveRecording(finished: FinishedRecorder): Promise<AudioFile[]> {
+    const { uri } = finished;
+    if (!uri) {
+      return [];
+    }
+
+    // Check if file exists and has data
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    if (!fileInfo.exists || fileInfo.size === 0) {
+      console.error('Recording file is missing or empty:', uri);
+      return [];
+    }
+
+    const wavInfo = finished.format.container === 'wav' ? await WavFiles.readHeader(uri) : null;
+    const firstFrame = wavInfo ? Math.round((finished.leadInMillis / 1000) * wavInfo.sampleRate) : 0;
+    const segments = wavInfo
+      ? wavSegments(wavInfo, this.framesPerSegment(wavInfo) ?? Infinity, firstFrame)
+      : [];
+
+    const saved: AudioFile[] = [];
+    if (wavInfo && segments.length > 1) {
+      for (const segment of segments) {
+        saved.push(await this.saveSegment(finished, uri, wavInfo, segment, segments));
+      }
+    } else {
+      // Only a file with a lead-in has to be cut; any other is copied as it is
+      const cut = wavInfo && firstFrame > 0 && segments.length === 1 ? { wavInfo, segment: segments[0] } : null;
+      const whole = await this.saveWhole(finished, uri, cut);
+      if (!whole) {
+        return [];
+      }
+      saved.push(whole);
+    }
+
+    await RecordingJournal.remove(uri);
+    return saved;
+  }
+
+  // Frames in each part of a split recording, null when recordings are kept whole
+  private framesPerSegment(wavInfo: WavInfo) {
+    const settings = SettingsService.get();
+    switch (settings.segmentMode) {
+      case 'duration':
+        return settings.segmentMinutes * 60 * wavInfo.sampleRate;
+      case 'size':
+        return Math.floor((settings.segmentMegabytes * 1024 * 1024) / wavInfo.blockAlign);
+      default:
+        return null;
+    }
+  }
+
+  private async saveWhole(
+    finished: FinishedRecorder,
+    uri: string,
+    cut: { wavInfo: WavInfo; segment: WavSegment } | null
+  ): Promise<AudioFile | null> {
+    // Name the file with a timestamp and the extension of the format actually recorded
+    const createdAt = finished.startedAt;
+    const id = createdAt.getTime().toString();
+    const filename = `recording_${id}${finished.extension}`;
+    const destinationUri = `${Paths.recordings}${filename}`;
+
+    // Copy the recorded file to our app's documents directory
+    if (cut) {
+      await WavFiles.writeSegment(uri, cut.wavInfo, cut.segment, destinationUri);
+    } else {
       await FileSystem.copyAsync({
         from: uri,
         to: destinationUri
       });
-      
-      // Verify the copied file exists
-      const destFileInfo = await FileSystem.getInfoAsync(destinationUri);
-      if (!destFileInfo.exists) {
-        console.error('Failed to save recording:', destinationUri);
-        return null;
+    }
+    
+    // Verify the copied file exists
+    const destFileInfo = await FileSystem.getInfoAsync(destinationUri);
+    if (!destFileInfo.exists) {
+      console.error('Failed to save recording:', destinationUri);
+      return null;
+    }
+
+    console.log(`Recording saved: ${filename}, size: ${destFileInfo.size} bytes`);
+
+    return RecordingStore.add(filename, {
+      id,
+      title: `Recording ${createdAt.toLocaleString()}`,
+      createdAt,
+      duration: finished.durationMillis,
+      format: finished.format,
+      waveform: downsamplePeaks(finished.levels),
+      bookmarks: finished.bookmarks.length > 0 ? finished.bookmarks : undefined,
+    });
+  }
+
+  // Write one part of a split recording into the library
+  private async saveSegment(
+    finished: FinishedRecorder,
+    uri: string,
+    wavInfo: WavInfo,
+    segment: WavSegment,
+    segments: WavSegment[]
+  ): Promise<AudioFile> {
+    const index = segments.indexOf(segment);
+    const isLast = index === segments.length - 1;
+    // Positions count from the first frame kept
+    const firstFrame = segments[0].startFrame;
+    const toMillis = (frame: number) => Math.round(((frame - firstFrame) / wavInfo.sampleRate) * 1000);
+    const startMillis = toMillis(segment.startFrame);
+    const endMillis = toMillis(segment.endFrame);
+
+    // Each part counts as created when its audio starts, which also keeps the ids apart
+    const createdAt = new Date(finished.startedAt.getTime() + startMillis);
+    const id = createdAt.getTime().toString();
+    const filename = `recording_${id}${finished.extension}`;
+    await WavFiles.writeSegment(uri, wavInfo, segment, `${Paths.recordings}${filename}`);
+
+    // Levels were taken evenly through the recording, so each part gets its share of them
+    const totalFrames = segments[segments.length - 1].endFrame - firstFrame;
+    const levelAt = (frame: number) => Math.round(((frame - firstFrame) / totalFrames) * finished.levels.length);
+    // A mark right on a split belongs to the part it starts
+    const bookmarks = finished.bookmarks.filter(
+      bookmark => bookmark.positionMillis >= startMillis && (isLast || bookmark.positionMillis < endMillis)
+    );
+
+    return RecordingStore.add(filename, {
+      id,
+      title: `Recording ${finished.startedAt.toLocaleString()} (part ${index + 1})`,
+      createdAt,
+      duration: endMillis - startMillis,
+      format: finished.format,
+      waveform: downsamplePeaks(finished.levels.slice(levelAt(segment.startFrame), levelAt(segment.endFrame))),
+      session: { id: finished.startedAt.getTime().toString(), index },
+      bookmarks: bookmarks.length > 0 ? offsetBookmarks(bookmarks, -startMillis) : undefined,
+    });
+  }
+
+  // Recordings that were still in progress when the app was last killed
+  async findUnfinishedRecordings(): Promise<JournalEntry[]> {
+    // Don't offer the recorder that is running right now
+    if (this.recorderState !== 'idle') {
+      return [];
+    }
+
+    const entries = await RecordingJournal.list();
+    const unfinished: JournalEntry[] = [];
+    for (const entry of entries) {
+      const info = await FileSystem.getInfoAsync(entry.tempUri);
+      if (info.exists && info.size > 0) {
+        unfinished.push(entry);
+      } else {
+        // Nothing was captured, or the OS already cleared the cache
+        await RecordingJournal.remove(entry.tempUri);
       }
+    }
+    return unfinished;
+  }
 
-      console.log(`Recording saved: ${filename}, size: ${destFileInfo.size} bytes`);
+  // Fix up an interrupted recording and save it into the library, split like any other recording.
+  // Returns the recording, or its first part.
+  async recoverRecording(entry: JournalEntry): Promise<AudioFile | null> {
+    try {
+      const leadInMillis = entry.leadInMillis ?? 0;
+      let durationMillis = 0;
+      if (entry.format.container === 'wav') {
+        durationMillis = Math.max(0, (await this.repairWavFile(entry.tempUri)) - leadInMillis);
+      } else {
+        // Compressed containers can't be patched up; the file is kept as-is and may not play
+        console.warn('Recovering a compressed recording without repair:', entry.tempUri);
+      }
 
-      return {
-        id,
-        uri: destinationUri,
-        filename,
-        duration: status.durationMillis || 0,
-        createdAt: new Date()
-      };
+      const saved = await this.saveRecording({
+        uri: entry.tempUri,
+        startedAt: new Date(entry.startedAt),
+        durationMillis,
+        format: entry.format,
+        extension: entry.extension,
+        leadInMillis,
+        levels: [],
+        bookmarks: [],
+      });
+      return saved[0] ?? null;
     } catch (error) {
-      console.error("Failed to stop recording:", error);
+      console.error("Failed to recover recording:", error);
       return null;
     }
   }
 
-  // Get all recordings
-  async getRecordings(): Promise<AudioFile[]> {
+  // Throw away an interrupted recording
+  async discardUnfinishedRecording(entry: JournalEntry) {
     try {
-      await this.init();
-      
-      const files = await FileSystem.readDirectoryAsync(this.recordingsDirectory);
-      const wavFiles = files.filter(file => file.endsWith('.wav'));
-      
-      if (wavFiles.length === 0) {
-        return [];
-      }
-      
-      const recordings = await Promise.all(wavFiles.map(async filename => {
-        const fileUri = `${this.recordingsDirectory}${filename}`;
-        const fileInfo = await FileSystem.getInfoAsync(fileUri);
-        const id = filename.split('_')[1]?.split('.')[0] || Date.now().toString();
-        const timestamp = parseInt(id);
-        
-        return {
-          id,
-          uri: fileUri,
-          filename,
-          duration: 0, // Duration will be determined during playback
-          createdAt: new Date(timestamp)
-        };
-      }));
-      
-      return recordings.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-    } catch (error) {
-      console.error("Failed to get recordings:", error);
-      return [];
+      await FileSystem.deleteAsync(entry.tempUri, { idempotent: true });
+    } catch (error) {
+      console.error("Failed to delete unfinished recording:", error);
     }
+    await RecordingJournal.remove(entry.tempUri);
+  }
+
+  // Fix the header sizes of a WAV file that was never finalized, returns its duration
+  private async repairWavFile(uri: string) {
+    const wavInfo = await WavFiles.repairHeader(uri);
+    if (!wavInfo) {
+      console.warn('Could not find a WAV header to repair:', uri);
+      return 0;
+    }
+    return wavInfo.duration;
+  }
+
+  // Get all recordings, newest first. Prefer subscribing to RecordingStore in UI code.
+  async getRecordings(): Promise<AudioFile[]> {
+    return RecordingStore.refresh();
   }
 
-  // Play a recording
-  async playRecording(uri: string, onPlaybackStatusUpdate: (status: any) => void) {
+  // Rename a recording
+  async renameRecording(id: string, title: string): Promise<boolean> {
     try {
-      // Stop any existing playback
-      if (this.sound) {
-        await this.sound.unloadAsync();
-        this.sound = null;
-      }
+      const recording = await RecordingStore.rename(id, title.trim());
+      return recording !== null;
+    } catch (error) {
+      console.error("Failed to rename recording:", error);
+      return false;
+    }
+  }
 
-      // Verify file exists
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      if (!fileInfo.exists) {
-        console.error('Audio file not found:', uri);
-        return false;
-      }
+  // Mark the current moment of the active recording. Returns the mark, or null when not recording.
+  markRecording(label?: string): Bookmark | null {
+    if (!this.recording || (this.recorderState !== 'recording' && this.recorderState !== 'paused')) {
+      return null;
+    }
 
-      // Simplified audio mode configuration
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        playsInSilentModeIOS: true,
-        shouldDuckAndroid: true,
-        playThroughEarpieceAndroid: false,
-      });
+    const bookmark: Bookmark = { id: createBookmarkId(), positionMillis: this.recordedMillis, label };
+    this.bookmarks = sortBookmarks([...this.bookmarks, bookmark]);
+    return bookmark;
+  }
 
-      const { sound } = await Audio.Sound.createAsync(
-        { uri },
-        { progressUpdateIntervalMillis: 100 },
-        onPlaybackStatusUpdate
-      );
+  // Mark a position in a saved recording, e.g. during playback
+  async addBookmark(recordingId: string, positionMillis: number, label?: string): Promise<Bookmark | null> {
+    const recording = RecordingStore.getRecording(recordingId);
+    if (!recording) {
+      return null;
+    }
+
+    const bookmark: Bookmark = {
+      id: createBookmarkId(),
+      positionMillis: Math.max(0, Math.min(Math.round(positionMillis), recording.duration)),
+      label,
+    };
+    const saved = await this.saveBookmarks(recording, [...(recording.bookmarks ?? []), bookmark]);
+    return saved ? bookmark : null;
+  }
 
-      this.sound = sound;
-      await sound.playAsync();
+  // Change the label of a mark, whether its recording is still in progress or already saved
+  async labelBookmark(bookmarkId: string, label: string) {
+    const trimmed = label.trim() || undefined;
+    if (this.bookmarks.some(bookmark => bookmark.id === bookmarkId)) {
+      this.bookmarks = this.bookmarks.map(bookmark =>
+        bookmark.id === bookmarkId ? { ...bookmark, label: trimmed } : bookmark
+      );
       return true;
+    }
+
+    const recording = RecordingStore.getRecordings().find(r => r.bookmarks?.some(b => b.id === bookmarkId));
+    if (!recording) {
+      return false;
+    }
+    return this.saveBookmarks(
+      recording,
+      (recording.bookmarks ?? []).map(bookmark => (bookmark.id === bookmarkId ? { ...bookmark, label: trimmed } : bookmark))
+    );
+  }
+
+  async removeBookmark(recordingId: string, bookmarkId: string) {
+    const recording = RecordingStore.getRecording(recordingId);
+    if (!recording) {
+      return false;
+    }
+    return this.saveBookmarks(recording, (recording.bookmarks ?? []).filter(bookmark => bookmark.id !== bookmarkId));
+  }
+
+  // Keep an A-B loop with a recording
+  async saveLoop(recordingId: string, startMillis: number, endMillis: number, label?: string): Promise<SavedLoop | null> {
+    const recording = RecordingStore.getRecording(recordingId);
+    if (!recording) {
+      return null;
+    }
+
+    const loop: SavedLoop = {
+      id: createBookmarkId(),
+      startMillis: Math.max(0, Math.round(startMillis)),
+      endMillis: Math.round(endMillis),
+      label: label?.trim() || undefined,
+    };
+    try {
+      const loops = [...(recording.loops ?? []), loop].sort((a, b) => a.startMillis - b.startMillis);
+      const updated = await this.updateMarkers(recording, { loops });
+      return updated ? loop : null;
     } catch (error) {
-      console.error("Failed to play recording:", error);
+      console.error("Failed to save loop:", error);
+      return null;
+    }
+  }
+
+  async removeLoop(recordingId: string, loopId: string) {
+    const recording = RecordingStore.getRecording(recordingId);
+    if (!recording) {
+      return false;
+    }
+
+    try {
+      const updated = await this.updateMarkers(recording, {
+        loops: (recording.loops ?? []).filter(loop => loop.id !== loopId),
+      });
+      return updated !== null;
+    } catch (error) {
+      console.error("Failed to remove loop:", error);
       return false;
     }
   }
 
-  // Stop playback
-  async stopPlayback() {
-    if (this.sound) {
-      try {
-        await this.sound.stopAsync();
-        await this.sound.unloadAsync();
-        this.sound = null;
-      } catch (error) {
-        console.error("Error stopping playback:", error);
-      }
+  // Remember a playback speed for one recording, or go back to the default with undefined
+  async setPlaybackRate(recordingId: string, rate: number | undefined) {
+    try {
+      const updated = await RecordingStore.update(recordingId, {
+        playbackRate: rate === undefined ? undefined : clampPlaybackRate(rate),
+      });
+      return updated !== null;
+    } catch (error) {
+      console.error("Failed to save playback speed:", error);
+      return false;
+    }
+  }
+
+  private async saveBookmarks(recording: AudioFile, bookmarks: Bookmark[]) {
+    try {
+      const updated = await this.updateMarkers(recording, { bookmarks: sortBookmarks(bookmarks) });
+      return updated !== null;
+    } catch (error) {
+      console.error("Failed to save bookmarks:", error);
+      return false;
     }
   }
 
+  // Save changed bookmarks or loops. An edited recording's list keeps them on the source too, so
+  // they stay put through undo and redo.
+  private updateMarkers(recording: AudioFile, changes: Partial<RecordingMarkers>) {
+    const markers = markersOf(recording);
+    const list = recording.editList;
+    return RecordingStore.update(recording.id, {
+      ...changes,
+      ...(list && { editList: updateListMarkers(list, markers, { ...markers, ...changes }) }),
+    });
+  }
+
   // Delete a recording
-  async deleteRecording(uri: string): Promise<boolean> {
+  async deleteRecording(recording: AudioFile): Promise<boolean> {
+    const { uri } = recording;
     try {
-      // If the file is currently playing, stop it first
-      if (this.sound) {
-        await this.stopPlayback();
-      }
+      // If the file is currently playing, stop it first, and take it out of the queue
+      await PlaybackController.forgetRecording(recording.id);
 
       // Verify file exists before attempting to delete
       const fileInfo = await FileSystem.getInfoAsync(uri);
       if (!fileInfo.exists) {
-        console.warn('File does not exist, nothing to delete:', uri);
-        return false;
+        console.warn('File does not exist, dropping it from the library:', uri);
+      } else {
+        await FileSystem.deleteAsync(uri);
+      }
+      // The untouched source kept for the edit list goes with it
+      if (recording.editList) {
+        await FileSystem.deleteAsync(`${Paths.sources}${recording.filename}`, { idempotent: true });
       }
 
-      await FileSystem.deleteAsync(uri);
+      await RecordingStore.remove(recording.id);
       return true;
     } catch (error) {
       console.error("Failed to delete recording:", error);
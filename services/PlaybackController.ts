@@ -0,0 +1,759 @@
+import { Audio, AVPlaybackStatus, PitchCorrectionQuality } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+
+import { clampPlaybackRate, DEFAULT_PLAYBACK_RATE } from '@/constants/PlaybackRates';
+import type { AudioFile } from '@/services/AudioService';
+import RecordingStore from '@/services/RecordingStore';
+import SettingsService from '@/services/SettingsService';
+import { PLAYBACK_PROGRESS_SAVE_INTERVAL, resumePositionMillis } from '@/utils/playbackProgress';
+import { nextQueueIndex, previousQueueIndex, RepeatMode, shuffled } from '@/utils/playbackQueue';
+
+// A span of the loaded item played over and over. Positions are across the whole item.
+export interface LoopRegion {
+  startMillis: number;
+  // Null while only the A point has been set
+  endMillis: number | null;
+  // How many times to go back to A, null loops until cleared
+  repeats: number | null;
+  completed: number;
+}
+
+// When playback should stop by itself
+export type SleepTimer =
+  | { mode: 'minutes'; endsAt: number }
+  | { mode: 'endOfItem' }
+  | { mode: 'endOfQueue' };
+
+// What the user picks, turned into a SleepTimer when it is set
+export type SleepTimerChoice = { mode: 'minutes'; minutes: number } | { mode: 'endOfItem' | 'endOfQueue' };
+
+// Something that can be played: a single recording, or every segment of a session
+export interface QueueItem {
+  id: string;
+  title: string;
+  segments: AudioFile[];
+}
+
+export interface PlaybackState {
+  // Id of the recording or session that is loaded
+  itemId: string | null;
+  // Files played back to back, a single recording has one
+  segments: AudioFile[];
+  segmentIndex: number;
+  isPlaying: boolean;
+  // Position and duration across all segments of the item
+  positionMillis: number;
+  durationMillis: number;
+  // Playback speed, pitch is corrected so voices sound natural
+  rate: number;
+  // Items in play order, the loaded one is at queueIndex
+  queue: QueueItem[];
+  queueIndex: number;
+  repeatMode: RepeatMode;
+  shuffle: boolean;
+  loop: LoopRegion | null;
+  sleepTimer: SleepTimer | null;
+  error: string | null;
+}
+
+export interface PlayOptions {
+  // Position within the whole item to start from, by default where it was last left
+  startMillis?: number;
+  // Defaults to the recording's own speed, then the one in the settings
+  rate?: number;
+  // Pause here instead of playing on, e.g. to preview a selection
+  endMillis?: number;
+}
+
+export type PlaybackListener = (state: PlaybackState) => void;
+
+const PROGRESS_UPDATE_INTERVAL = 100;
+
+const IDLE_STATE: PlaybackState = {
+  itemId: null,
+  segments: [],
+  segmentIndex: 0,
+  isPlaying: false,
+  positionMillis: 0,
+  durationMillis: 0,
+  rate: DEFAULT_PLAYBACK_RATE,
+  queue: [],
+  queueIndex: 0,
+  repeatMode: 'off',
+  shuffle: false,
+  loop: null,
+  sleepTimer: null,
+  error: null,
+};
+
+// Playback fades to silence over this long before the sleep timer stops it
+const SLEEP_FADE_MILLIS = 8000;
+
+// Shortest loop accepted, anything shorter would just stutter
+const MIN_LOOP_MILLIS = 500;
+
+// Going back within this far into an item jumps to the previous one instead of its start
+const PREVIOUS_RESTART_MILLIS = 3000;
+
+// The single player shared by every screen. Owns the loaded Audio.Sound and keeps the
+// next segment of a session preloaded so segments follow each other without a gap.
+// Finished items hand over to the next one in the queue.
+class PlaybackController {
+  private state: PlaybackState = IDLE_STATE;
+  private sound: Audio.Sound | null = null;
+  private nextSound: Audio.Sound | null = null;
+  // Segment durations, taken from metadata and corrected from the player once loaded
+  private durations: number[] = [];
+  private listeners = new Set<PlaybackListener>();
+  private lastProgressSave = 0;
+  // The queue as it was built, so turning shuffle off restores it
+  private orderedQueue: QueueItem[] = [];
+  // Set while jumping back to A, so the statuses still past B don't trigger another jump
+  private loopSeeking = false;
+  private sleepTimeout: ReturnType<typeof setTimeout> | null = null;
+  private volume = 1;
+  // Where a preview started with PlayOptions.endMillis pauses
+  private stopAtMillis: number | null = null;
+
+  subscribe(listener: PlaybackListener) {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: PlaybackListener) {
+    this.listeners.delete(listener);
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  // Whether the given recording is part of the loaded item
+  isLoaded(recordingId: string) {
+    return this.state.segments.some(segment => segment.id === recordingId);
+  }
+
+  // Play an item now. It is queued right after the current item unless it's queued already.
+  async play(item: QueueItem, options: PlayOptions = {}) {
+    const { queue, queueIndex, itemId } = this.state;
+    let index = queue.findIndex(queued => queued.id === item.id);
+    if (index === -1) {
+      index = itemId === null ? 0 : queueIndex + 1;
+      const orderedIndex = this.orderedQueue.findIndex(queued => queued.id === itemId);
+      this.orderedQueue = itemId === null
+        ? [item]
+        : [...this.orderedQueue.slice(0, orderedIndex + 1), item, ...this.orderedQueue.slice(orderedIndex + 1)];
+      this.setState({ queue: itemId === null ? [item] : [...queue.slice(0, index), item, ...queue.slice(index)] });
+    }
+
+    this.saveProgress(true);
+    return this.loadItem(index, options);
+  }
+
+  // Replace the queue, e.g. to play every recording of a day
+  async playQueue(items: QueueItem[], startIndex = 0) {
+    if (items.length === 0) {
+      return false;
+    }
+
+    const start = items[startIndex] ?? items[0];
+    this.orderedQueue = items;
+    // Shuffling keeps the chosen item first
+    const queue = this.state.shuffle ? [start, ...shuffled(items.filter(item => item !== start))] : items;
+
+    this.saveProgress(true);
+    this.setState({ queue });
+    return this.loadItem(queue.indexOf(start));
+  }
+
+  // Add items to the end of the queue, starting playback if nothing is loaded
+  async enqueue(items: QueueItem[]) {
+    if (this.state.itemId === null) {
+      return this.playQueue(items);
+    }
+
+    const queued = new Set(this.state.queue.map(item => item.id));
+    const added = items.filter(item => !queued.has(item.id));
+    this.orderedQueue = [...this.orderedQueue, ...added];
+    this.setState({ queue: [...this.state.queue, ...added] });
+    return true;
+  }
+
+  // Take an upcoming item out of the queue. The loaded item can't be removed this way.
+  removeFromQueue(itemId: string) {
+    const { queue, queueIndex } = this.state;
+    const index = queue.findIndex(item => item.id === itemId);
+    if (index === -1 || index === queueIndex) {
+      return;
+    }
+
+    this.orderedQueue = this.orderedQueue.filter(item => item.id !== itemId);
+    this.setState({
+      queue: queue.filter(item => item.id !== itemId),
+      queueIndex: index < queueIndex ? queueIndex - 1 : queueIndex,
+    });
+  }
+
+  // Drop a recording that is being deleted, stopping playback if it's part of the loaded item
+  async forgetRecording(recordingId: string) {
+    if (this.isLoaded(recordingId)) {
+      await this.stop();
+      return;
+    }
+
+    const contains = (item: QueueItem) => item.segments.some(segment => segment.id === recordingId);
+    const current = this.state.queue[this.state.queueIndex];
+    this.orderedQueue = this.orderedQueue.filter(item => !contains(item));
+    const queue = this.state.queue.filter(item => !contains(item));
+    this.setState({ queue, queueIndex: Math.max(0, queue.indexOf(current)) });
+  }
+
+  // Skip to the next item in the queue
+  async next() {
+    const { queueIndex, queue, repeatMode } = this.state;
+    const index = nextQueueIndex(queueIndex, queue.length, repeatMode, true);
+    if (index === null) {
+      await this.stop();
+      return;
+    }
+
+    this.saveProgress(true);
+    await this.loadItem(index);
+  }
+
+  // Go back to the start of the item, or to the previous item when already near its start
+  async previous() {
+    const { queueIndex, queue, repeatMode, positionMillis } = this.state;
+    const index = previousQueueIndex(queueIndex, queue.length, repeatMode);
+    if (index === null || positionMillis > PREVIOUS_RESTART_MILLIS) {
+      await this.seekTo(0);
+      return;
+    }
+
+    this.saveProgress(true);
+    await this.loadItem(index);
+  }
+
+  setRepeatMode(repeatMode: RepeatMode) {
+    this.setState({ repeatMode });
+  }
+
+  // Shuffle what's left to play, or go back to the order the queue was built in
+  setShuffle(shuffle: boolean) {
+    const current = this.state.queue[this.state.queueIndex];
+    if (!current) {
+      this.setState({ shuffle });
+      return;
+    }
+
+    if (shuffle) {
+      const rest = shuffled(this.orderedQueue.filter(item => item.id !== current.id));
+      this.setState({ shuffle, queue: [current, ...rest], queueIndex: 0 });
+    } else {
+      const queueIndex = Math.max(0, this.orderedQueue.findIndex(item => item.id === current.id));
+      this.setState({ shuffle, queue: this.orderedQueue, queueIndex });
+    }
+  }
+
+  // Load the queue item at `index` and start playing it
+  private async loadItem(index: number, { startMillis, rate, endMillis }: PlayOptions = {}) {
+    const item = this.state.queue[index];
+    this.stopAtMillis = endMillis ?? null;
+    // Queued copies go stale, e.g. their saved position, so read the segments from the store
+    const segments = item.segments.map(segment => RecordingStore.getRecording(segment.id) ?? segment);
+    await this.unload();
+
+    try {
+      const fileInfo = await FileSystem.getInfoAsync(segments[0].uri);
+      if (!fileInfo.exists || fileInfo.size === 0) {
+        this.setState({ ...this.idleState(), error: `File doesn't exist or is empty: ${segments[0].uri}` });
+        return false;
+      }
+
+      await this.configureAudioSession();
+
+      this.durations = segments.map(segment => segment.duration);
+      const start = this.locate(startMillis ?? resumePositionMillis(segments));
+      const settings = await SettingsService.load();
+      this.setState({
+        ...IDLE_STATE,
+        queue: this.state.queue,
+        queueIndex: index,
+        repeatMode: this.state.repeatMode,
+        shuffle: this.state.shuffle,
+        sleepTimer: this.state.sleepTimer,
+        itemId: item.id,
+        segments,
+        segmentIndex: start.index,
+        isPlaying: true,
+        positionMillis: this.segmentOffset(start.index) + start.positionMillis,
+        durationMillis: this.totalDuration(),
+        rate: clampPlaybackRate(rate ?? segments[0].playbackRate ?? settings.playbackRate),
+      });
+
+      this.sound = await this.loadSegment(start.index, true, start.positionMillis);
+      this.preloadNext();
+      return true;
+    } catch (error) {
+      console.error('Error playing sound:', error);
+      await this.unload();
+      this.setState({ ...this.idleState(), error: `Playback error: ${error instanceof Error ? error.message : String(error)}` });
+      return false;
+    }
+  }
+
+  async pause() {
+    if (!this.sound) {
+      return;
+    }
+
+    try {
+      await this.sound.pauseAsync();
+      this.setState({ isPlaying: false });
+      this.saveProgress(true);
+    } catch (error) {
+      console.error('Error pausing sound:', error);
+    }
+  }
+
+  async resume() {
+    if (!this.sound) {
+      return;
+    }
+
+    try {
+      await this.sound.playAsync();
+      this.setState({ isPlaying: true });
+    } catch (error) {
+      console.error('Error resuming sound:', error);
+      this.setState({ error: `Resume error: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  // Jump to a position across all segments of the loaded item, keeping it playing or paused
+  async seekTo(positionMillis: number) {
+    if (!this.sound) {
+      return;
+    }
+
+    const target = this.locate(positionMillis);
+    try {
+      if (target.index === this.state.segmentIndex) {
+        await this.sound.setPositionAsync(target.positionMillis);
+      } else {
+        // The preloaded segment is only right for the old position, so start over from the target
+        const shouldPlay = this.state.isPlaying;
+        await this.unload();
+        this.setState({ segmentIndex: target.index });
+        this.sound = await this.loadSegment(target.index, shouldPlay, target.positionMillis);
+        this.preloadNext();
+      }
+      this.setState({ positionMillis: this.segmentOffset(target.index) + target.positionMillis });
+      // Skipping over part of a recording doesn't count as listening to it
+      this.saveProgress(true, false);
+    } catch (error) {
+      console.error('Error seeking:', error);
+      this.setState({ error: `Seek error: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  // Change the speed of the loaded item, including the preloaded segment
+  async setRate(rate: number) {
+    const clamped = clampPlaybackRate(rate);
+    this.setState({ rate: clamped });
+
+    for (const sound of [this.sound, this.nextSound]) {
+      try {
+        await sound?.setRateAsync(clamped, true, PitchCorrectionQuality.High);
+      } catch (error) {
+        console.error('Error changing playback speed:', error);
+      }
+    }
+  }
+
+  // Set loop point A at the current position. A B point before it is dropped.
+  setLoopStart() {
+    const startMillis = this.state.positionMillis;
+    const { loop } = this.state;
+    const endMillis = loop?.endMillis != null && loop.endMillis - startMillis >= MIN_LOOP_MILLIS ? loop.endMillis : null;
+    this.setState({ loop: { startMillis, endMillis, repeats: loop?.repeats ?? null, completed: 0 } });
+  }
+
+  // Set loop point B at the current position and jump back to A
+  async setLoopEnd() {
+    const endMillis = this.state.positionMillis;
+    const { loop } = this.state;
+    if (!loop || endMillis - loop.startMillis < MIN_LOOP_MILLIS) {
+      return false;
+    }
+
+    this.setState({ loop: { ...loop, endMillis, completed: 0 } });
+    await this.seekTo(loop.startMillis);
+    return true;
+  }
+
+  // Loop a known span, e.g. one saved with the recording, starting from A
+  async setLoop(startMillis: number, endMillis: number, repeats: number | null = this.state.loop?.repeats ?? null) {
+    if (endMillis - startMillis < MIN_LOOP_MILLIS) {
+      return false;
+    }
+
+    this.setState({ loop: { startMillis, endMillis, repeats, completed: 0 } });
+    await this.seekTo(startMillis);
+    return true;
+  }
+
+  setLoopRepeats(repeats: number | null) {
+    if (this.state.loop) {
+      this.setState({ loop: { ...this.state.loop, repeats, completed: 0 } });
+    }
+  }
+
+  clearLoop() {
+    this.setState({ loop: null });
+  }
+
+  // Stop after a number of minutes, or at the end of the current item or the queue. Null cancels.
+  setSleepTimer(timer: SleepTimerChoice | null) {
+    if (this.sleepTimeout) {
+      clearTimeout(this.sleepTimeout);
+      this.sleepTimeout = null;
+    }
+    this.setVolume(1);
+
+    if (timer === null) {
+      this.setState({ sleepTimer: null });
+    } else if (timer.mode === 'minutes') {
+      const millis = timer.minutes * 60 * 1000;
+      this.setState({ sleepTimer: { mode: 'minutes', endsAt: Date.now() + millis } });
+      // The fade happens on status updates, this makes sure playback ends even if they stop coming
+      this.sleepTimeout = setTimeout(() => this.sleep(), millis);
+    } else {
+      this.setState({ sleepTimer: { mode: timer.mode } });
+    }
+  }
+
+  // Time left before the sleep timer ends playback, null when it isn't in sight yet
+  private sleepRemainingMillis() {
+    const { sleepTimer, durationMillis, positionMillis, rate, queueIndex, queue } = this.state;
+    if (!sleepTimer) {
+      return null;
+    }
+    if (sleepTimer.mode === 'minutes') {
+      return sleepTimer.endsAt - Date.now();
+    }
+    if (sleepTimer.mode === 'endOfQueue' && queueIndex < queue.length - 1) {
+      return null;
+    }
+    // Remaining media time plays faster or slower than the clock
+    return (durationMillis - positionMillis) / rate;
+  }
+
+  // Fade the volume down as the sleep timer runs out
+  private updateSleepFade() {
+    const remaining = this.sleepRemainingMillis();
+    if (remaining === null) {
+      return;
+    }
+    this.setVolume(Math.max(0, Math.min(1, remaining / SLEEP_FADE_MILLIS)));
+  }
+
+  // The sleep timer ran out: pause where we are so listening can pick up from here later
+  private async sleep() {
+    this.sleepTimeout = null;
+    this.setState({ sleepTimer: null });
+    await this.pause();
+    this.setVolume(1);
+  }
+
+  private setVolume(volume: number) {
+    // Status updates come in every 100 ms, only touch the player when the level moves noticeably
+    if (Math.abs(volume - this.volume) < 0.01) {
+      return;
+    }
+    this.volume = volume;
+    for (const sound of [this.sound, this.nextSound]) {
+      sound?.setVolumeAsync(volume).catch(error => console.warn('Failed to change volume:', error));
+    }
+  }
+
+  // Move forwards or backwards from the current position, e.g. the ±15 s skip buttons
+  async skip(deltaMillis: number) {
+    await this.seekTo(this.state.positionMillis + deltaMillis);
+  }
+
+  // Stop, unload everything and clear the queue, remembering where the item was left
+  async stop() {
+    this.saveProgress(true);
+    await this.reset();
+  }
+
+  private async reset() {
+    await this.unload();
+    this.stopAtMillis = null;
+    this.orderedQueue = [];
+    // Nothing left to put to sleep
+    this.setSleepTimer(null);
+    this.setState(this.idleState());
+  }
+
+  // Nothing loaded, but the repeat and shuffle choices stay
+  private idleState(): PlaybackState {
+    return { ...IDLE_STATE, repeatMode: this.state.repeatMode, shuffle: this.state.shuffle };
+  }
+
+  // Set up audio mode for playback
+  private async configureAudioSession() {
+    try {
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        staysActiveInBackground: true,
+        playsInSilentModeIOS: true,
+        shouldDuckAndroid: true,
+        playThroughEarpieceAndroid: false,
+      });
+    } catch (error) {
+      console.error('Failed to configure audio mode:', error);
+    }
+  }
+
+  private async loadSegment(index: number, shouldPlay: boolean, positionMillis = 0) {
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: this.state.segments[index].uri },
+      {
+        shouldPlay,
+        positionMillis,
+        volume: this.volume,
+        rate: this.state.rate,
+        shouldCorrectPitch: true,
+        pitchCorrectionQuality: PitchCorrectionQuality.High,
+        progressUpdateIntervalMillis: PROGRESS_UPDATE_INTERVAL,
+      },
+      status => this.handleStatus(index, status)
+    );
+    return sound;
+  }
+
+  // Load the following segment paused so it can start the moment the current one ends
+  private async preloadNext() {
+    const index = this.state.segmentIndex + 1;
+    if (index >= this.state.segments.length || this.nextSound) {
+      return;
+    }
+
+    const itemId = this.state.itemId;
+    try {
+      const sound = await this.loadSegment(index, false);
+      // Playback may have moved on while the segment was loading
+      if (this.state.itemId !== itemId || this.state.segmentIndex + 1 !== index) {
+        await sound.unloadAsync();
+        return;
+      }
+      this.nextSound = sound;
+    } catch (error) {
+      console.warn('Failed to preload next segment:', error);
+    }
+  }
+
+  private handleStatus(index: number, status: AVPlaybackStatus) {
+    if (!status.isLoaded) {
+      if (status.error) {
+        console.error(`Playback error: ${status.error}`);
+        this.setState({ error: `Playback error: ${status.error}` });
+      }
+      return;
+    }
+
+    if (status.durationMillis && this.durations[index] !== status.durationMillis) {
+      this.durations[index] = status.durationMillis;
+      this.setState({ durationMillis: this.totalDuration() });
+    }
+
+    // Statuses from a preloaded segment are only used for its duration
+    if (index !== this.state.segmentIndex) {
+      return;
+    }
+
+    this.setState({
+      isPlaying: status.isPlaying,
+      positionMillis: this.segmentOffset(index) + status.positionMillis,
+    });
+
+    if (this.stopAtMillis !== null && (status.didJustFinish || this.state.positionMillis >= this.stopAtMillis)) {
+      // End of a preview, stay on the item rather than moving on
+      this.stopAtMillis = null;
+      this.pause();
+    } else if (status.didJustFinish && !this.loopReachesEnd()) {
+      this.advance();
+    } else if (status.isPlaying) {
+      this.checkLoop();
+      this.updateSleepFade();
+      this.saveProgress(false);
+    } else if (status.didJustFinish) {
+      // B is at the very end of the item, so finishing means going round again
+      this.checkLoop();
+    }
+  }
+
+  // Whether B sits at the very end of the item, where the player finishes before passing it
+  private loopReachesEnd() {
+    const { loop, durationMillis, segmentIndex, segments } = this.state;
+    return loop?.endMillis != null
+      && segmentIndex === segments.length - 1
+      && loop.endMillis >= durationMillis - PROGRESS_UPDATE_INTERVAL
+      && this.loopHasRepeatsLeft();
+  }
+
+  private loopHasRepeatsLeft() {
+    const { loop } = this.state;
+    return loop !== null && (loop.repeats === null || loop.completed < loop.repeats);
+  }
+
+  // Go back to A once playback passes B, until the repeats run out
+  private async checkLoop() {
+    const { loop, positionMillis, durationMillis } = this.state;
+    if (!loop || loop.endMillis === null || this.loopSeeking) {
+      return;
+    }
+    const endMillis = Math.min(loop.endMillis, durationMillis - PROGRESS_UPDATE_INTERVAL);
+    if (positionMillis < endMillis) {
+      return;
+    }
+
+    if (!this.loopHasRepeatsLeft()) {
+      // Done repeating, carry on playing past B
+      this.setState({ loop: null });
+      return;
+    }
+
+    this.loopSeeking = true;
+    try {
+      this.setState({ loop: { ...loop, completed: loop.completed + 1 } });
+      await this.seekTo(loop.startMillis);
+      if (!this.state.isPlaying) {
+        await this.sound?.playAsync();
+      }
+    } catch (error) {
+      console.error('Error going back to the loop start:', error);
+      this.setState({ error: `Loop error: ${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      this.loopSeeking = false;
+    }
+  }
+
+  // Move on to the next segment, or to the next item in the queue when this one is done
+  private async advance() {
+    const index = this.state.segmentIndex + 1;
+    const previous = this.sound;
+    const finished = this.state.segments[this.state.segmentIndex];
+
+    // Played to the end, so the next play starts this segment from the top
+    this.writeProgress(finished.id, 0, Math.round(this.durations[this.state.segmentIndex]));
+
+    if (index >= this.state.segments.length) {
+      const { queueIndex, queue, repeatMode, rate, sleepTimer } = this.state;
+      const isLastItem = queueIndex === queue.length - 1;
+      const nextIndex = nextQueueIndex(queueIndex, queue.length, repeatMode);
+      // The sleep timer ends playback here even when the queue would repeat
+      if (nextIndex === null || sleepTimer?.mode === 'endOfItem' || (sleepTimer?.mode === 'endOfQueue' && isLastItem)) {
+        await this.reset();
+      } else if (nextIndex === queueIndex) {
+        // Repeating the same item: from the top, at the speed it was playing at
+        await this.loadItem(nextIndex, { startMillis: 0, rate });
+      } else {
+        await this.loadItem(nextIndex);
+      }
+      return;
+    }
+
+    try {
+      if (this.nextSound) {
+        this.sound = this.nextSound;
+        this.nextSound = null;
+        this.setState({ segmentIndex: index });
+        await this.sound.playAsync();
+      } else {
+        this.setState({ segmentIndex: index });
+        this.sound = await this.loadSegment(index, true);
+      }
+      await previous?.unloadAsync();
+      this.preloadNext();
+    } catch (error) {
+      console.error('Error moving to the next segment:', error);
+      await this.stop();
+      this.setState({ error: `Playback error: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  // Remember the position in the current segment. Status updates arrive every 100 ms,
+  // so unless forced this only writes every few seconds.
+  private saveProgress(force: boolean, listened = this.state.isPlaying) {
+    const segment = this.state.segments[this.state.segmentIndex];
+    const now = Date.now();
+    if (!segment || (!force && now - this.lastProgressSave < PLAYBACK_PROGRESS_SAVE_INTERVAL)) {
+      return;
+    }
+
+    this.lastProgressSave = now;
+    const positionMillis = Math.round(this.state.positionMillis - this.segmentOffset(this.state.segmentIndex));
+    this.writeProgress(segment.id, positionMillis, listened ? positionMillis : 0);
+  }
+
+  private async writeProgress(recordingId: string, positionMillis: number, listenedMillis: number) {
+    // Read the stored copy, the segments handed to play() don't see earlier saves
+    const recording = RecordingStore.getRecording(recordingId);
+    if (!recording) {
+      return;
+    }
+
+    try {
+      await RecordingStore.update(recordingId, {
+        playbackProgress: {
+          positionMillis,
+          listenedMillis: Math.max(recording.playbackProgress?.listenedMillis ?? 0, listenedMillis),
+        },
+      });
+    } catch (error) {
+      console.error('Failed to save playback position:', error);
+    }
+  }
+
+  // Segment and position within it for a position across the whole item
+  private locate(positionMillis: number) {
+    const target = Math.max(0, Math.min(positionMillis, this.totalDuration()));
+    let index = 0;
+    while (index < this.durations.length - 1 && target >= this.segmentOffset(index + 1)) {
+      index++;
+    }
+    return { index, positionMillis: target - this.segmentOffset(index) };
+  }
+
+  private segmentOffset(index: number) {
+    return this.durations.slice(0, index).reduce((total, duration) => total + duration, 0);
+  }
+
+  private totalDuration() {
+    return this.segmentOffset(this.durations.length);
+  }
+
+  private async unload() {
+    const sounds = [this.sound, this.nextSound];
+    this.sound = null;
+    this.nextSound = null;
+
+    for (const sound of sounds) {
+      try {
+        await sound?.unloadAsync();
+      } catch (error) {
+        console.error('Error stopping playback:', error);
+      }
+    }
+  }
+
+  private setState(changes: Partial<PlaybackState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export default new PlaybackController();
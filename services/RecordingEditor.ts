@@ -0,0 +1,658 @@
+import * as FileSystem from 'expo-file-system';
+
+import { LIMITER_CEILING_DB } from '@/constants/Loudness';
+import { Paths } from '@/constants/Paths';
+import type { AudioFile, Bookmark, EditList, RecordingEdit, RecordingSource, SavedLoop } from '@/services/AudioService';
+import PlaybackController from '@/services/PlaybackController';
+import { NewRecordingDetails, RecordingChanges } from '@/services/RecordingIndex';
+import RecordingStore from '@/services/RecordingStore';
+import {
+  concatAudio,
+  crossfadeOverlap,
+  FadeCurve,
+  frameCount,
+  frameToMillis,
+  millisToFrame,
+  offsetBookmarks,
+  offsetLoops,
+  sliceAudio,
+  trimBookmarks,
+  trimLoops,
+  waveformFromAudio,
+} from '@/utils/audioEdit';
+import { decodeBase64, encodeBase64 } from '@/utils/base64';
+import {
+  applyEdit,
+  changesTimeline,
+  displayedMarkers,
+  editMarkers,
+  markersOf,
+  RecordingMarkers,
+  renderEdits,
+  sourceMarkers,
+} from '@/utils/editList';
+import { LoudnessMeasurement, measureLoudness, NormalizationTarget, normalizationGainDb } from '@/utils/loudness';
+import { CleanupOptions } from '@/utils/noiseReduction';
+import { ConversionOptions, convertAudioInChunks } from '@/utils/resample';
+import { detectSilenceTrim, SilenceTrimOptions, trimsAnything } from '@/utils/silence';
+import { decodeWav, encodeWav, WavAudio, wavDurationMillis } from '@/utils/wav';
+
+// Whether an edit is saved next to the original or overwrites it
+export type EditSaveMode = 'copy' | 'replace';
+
+// Why a recording can't be decoded: it's compressed, or too large to hold in memory
+export type EditBlocker = 'format' | 'size';
+
+// Largest WAV file decoded in one piece. Its base64, bytes and float samples together take several
+// times the file size, so bigger files risk the app being killed for running out of memory.
+export const MAX_DECODE_BYTES = 150 * 1024 * 1024;
+
+// What a new recording made by an edit needs besides its audio
+type EditedRecordingDetails = Pick<
+  NewRecordingDetails,
+  'title' | 'format' | 'bookmarks' | 'loops' | 'provenance' | 'loudness'
+>;
+
+// A converted recording and how many bytes smaller it is than before, counting the kept source
+export interface ConversionResult {
+  recording: AudioFile;
+  savedBytes: number;
+}
+
+// Parts of a split can't be shorter than this
+const MIN_SPLIT_PART_MILLIS = 100;
+
+// Markers are only stored when there are some
+function nonEmpty<T>(items: T[]) {
+  return items.length > 0 ? items : undefined;
+}
+
+function markerChanges({ bookmarks, loops }: RecordingMarkers): RecordingChanges {
+  return { bookmarks: nonEmpty(bookmarks), loops: nonEmpty(loops) };
+}
+
+// A saved position no longer fits once audio was removed or put back
+function progressChanges(edits: RecordingEdit[]): RecordingChanges {
+  return edits.some(changesTimeline) ? { playbackProgress: undefined } : {};
+}
+
+// Tenths of a dB are as precise as anyone reads levels
+function roundMeasurement({ peakDb, integratedLufs }: LoudnessMeasurement): LoudnessMeasurement {
+  const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+  return { peakDb: round(peakDb), integratedLufs: round(integratedLufs) };
+}
+
+// The span of a recording an edit took its audio from
+function describeSource(recording: AudioFile, startMillis: number, endMillis: number): RecordingSource {
+  return { id: recording.id, title: recording.title, startMillis: Math.round(startMillis), endMillis: Math.round(endMillis) };
+}
+
+// Reads recordings into sample buffers and writes edited audio back into the library.
+// Only WAV files up to MAX_DECODE_BYTES are edited; compressed recordings can be played but not
+// decoded here.
+// Edits made in place go on the recording's edit list, so they can be undone, redone or reverted.
+class RecordingEditor {
+  canEdit(recording: AudioFile) {
+    return this.editBlocker(recording) === null;
+  }
+
+  // Why a recording can't be edited, null when it can
+  editBlocker(recording: AudioFile): EditBlocker | null {
+    if (recording.format.container !== 'wav') {
+      return 'format';
+    }
+    return recording.size > MAX_DECODE_BYTES ? 'size' : null;
+  }
+
+  // Decode the samples of a recording, null when it isn't a readable WAV file
+  async readAudio(recording: AudioFile): Promise<WavAudio | null> {
+    if (!this.canEdit(recording)) {
+      return null;
+    }
+
+    return this.decodeFile(recording.uri);
+  }
+
+  // Keep only the audio between two positions, cut on the nearest sample frames
+  async trimRecording(
+    recording: AudioFile,
+    startMillis: number,
+    endMillis: number,
+    mode: EditSaveMode
+  ): Promise<AudioFile | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    return this.trimAudio(recording, audio, startMillis, endMillis, mode);
+  }
+
+  // Take the audio between two positions out of a recording, in place
+  async cutRecording(recording: AudioFile, startMillis: number, endMillis: number): Promise<AudioFile | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    const startFrame = millisToFrame(audio, startMillis);
+    const endFrame = millisToFrame(audio, endMillis);
+    if (endFrame <= startFrame || endFrame - startFrame >= frameCount(audio)) {
+      console.warn('Nothing to cut, or nothing left after cutting:', recording.uri);
+      return null;
+    }
+
+    const edit: RecordingEdit = {
+      type: 'cut',
+      startMillis: frameToMillis(audio, startFrame),
+      endMillis: frameToMillis(audio, endFrame),
+    };
+    return this.addEdit(recording, edit, applyEdit(audio, edit));
+  }
+
+  // Cut the silence off both ends of a recording just saved, in place. Returns the recording
+  // unchanged when there is nothing to cut, and null when it can't be read or saved. This is part
+  // of saving rather than an edit, so it isn't added to the edit list and no original is kept.
+  async trimSilence(recording: AudioFile, options: SilenceTrimOptions): Promise<AudioFile | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    const trim = detectSilenceTrim(audio, options);
+    if (!trim || !trimsAnything(trim, frameToMillis(audio, frameCount(audio)))) {
+      return recording;
+    }
+
+    const edit: RecordingEdit = {
+      type: 'trim',
+      startMillis: frameToMillis(audio, millisToFrame(audio, trim.startMillis)),
+      endMillis: frameToMillis(audio, millisToFrame(audio, trim.endMillis)),
+    };
+    return this.replaceAudio(recording, applyEdit(audio, edit), {
+      ...markerChanges(editMarkers(markersOf(recording), edit)),
+      ...progressChanges([edit]),
+    });
+  }
+
+  // Cut a recording in two at a position. The original is kept; the parts are new recordings.
+  async splitRecording(recording: AudioFile, atMillis: number): Promise<AudioFile[] | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    const splitFrame = millisToFrame(audio, atMillis);
+    const totalFrames = frameCount(audio);
+    const splitMillis = frameToMillis(audio, splitFrame);
+    const totalMillis = frameToMillis(audio, totalFrames);
+    if (splitMillis < MIN_SPLIT_PART_MILLIS || totalMillis - splitMillis < MIN_SPLIT_PART_MILLIS) {
+      console.warn('Split position is too close to the start or end:', atMillis);
+      return null;
+    }
+
+    const spans = [
+      { startFrame: 0, endFrame: splitFrame, startMillis: 0, endMillis: splitMillis },
+      { startFrame: splitFrame, endFrame: totalFrames, startMillis: splitMillis, endMillis: totalMillis },
+    ];
+    // A mark right on the cut belongs to the part it starts
+    const bookmarks = recording.bookmarks ?? [];
+    const partBookmarks = [bookmarks.filter(bookmark => bookmark.positionMillis < splitMillis), bookmarks];
+
+    const createdAt = Date.now();
+    const parts: AudioFile[] = [];
+    for (const [index, span] of spans.entries()) {
+      // Ids come from the creation time, so the parts are a millisecond apart
+      const part = await this.saveCopy(sliceAudio(audio, span.startFrame, span.endFrame), new Date(createdAt + index), {
+        title: `${recording.title} (split ${index + 1})`,
+        format: recording.format,
+        bookmarks: nonEmpty(trimBookmarks(partBookmarks[index], span.startMillis, span.endMillis)),
+        loops: nonEmpty(trimLoops(recording.loops ?? [], span.startMillis, span.endMillis)),
+        provenance: { operation: 'split', sources: [describeSource(recording, span.startMillis, span.endMillis)] },
+      });
+      if (!part) {
+        return null;
+      }
+      parts.push(part);
+    }
+    return parts;
+  }
+
+  // Join recordings end to end into a new one, in the order given. Parts that don't match the
+  // sample rate and channels of the result are converted first, see mergeTarget.
+  async mergeRecordings(recordings: AudioFile[], crossfadeMillis = 0): Promise<AudioFile | null> {
+    if (recordings.length < 2) {
+      return null;
+    }
+
+    const parts: WavAudio[] = [];
+    for (const recording of recordings) {
+      const audio = await this.readAudio(recording);
+      if (!audio) {
+        return null;
+      }
+      parts.push(audio);
+    }
+
+    const merged = concatAudio(parts, crossfadeMillis);
+    const durations = parts.map(part => frameToMillis(part, frameCount(part)));
+    const bookmarks: Bookmark[] = [];
+    const loops: SavedLoop[] = [];
+    const sources: RecordingSource[] = [];
+    let offsetMillis = 0;
+    recordings.forEach((recording, index) => {
+      // Crossfaded parts start before the previous one has ended
+      if (index > 0) {
+        offsetMillis -= crossfadeOverlap(durations[index - 1], durations[index], crossfadeMillis);
+      }
+      bookmarks.push(...offsetBookmarks(recording.bookmarks ?? [], offsetMillis));
+      loops.push(...offsetLoops(recording.loops ?? [], offsetMillis));
+      sources.push(describeSource(recording, 0, durations[index]));
+      offsetMillis += durations[index];
+    });
+
+    const [first] = recordings;
+    return this.saveCopy(merged, new Date(), {
+      title: `${first.title} (merged)`,
+      format: { ...first.format, sampleRate: merged.sampleRate, channels: merged.channelData.length },
+      bookmarks: nonEmpty(bookmarks),
+      loops: nonEmpty(loops),
+      provenance: { operation: 'merge', sources },
+    });
+  }
+
+  // Fade the start of a recording in or its end out, in place
+  async fadeRecording(
+    recording: AudioFile,
+    edge: 'in' | 'out',
+    curve: FadeCurve,
+    durationMillis: number
+  ): Promise<AudioFile | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    const edit: RecordingEdit = { type: 'fade', edge, curve, durationMillis };
+    return this.addEdit(recording, edit, applyEdit(audio, edit));
+  }
+
+  // Measure peak and integrated loudness and keep them with the recording
+  async measureLoudness(recording: AudioFile): Promise<LoudnessMeasurement | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    const loudness = roundMeasurement(measureLoudness(audio));
+    try {
+      await RecordingStore.update(recording.id, { loudness });
+    } catch (error) {
+      console.error('Failed to save loudness:', error);
+    }
+    return loudness;
+  }
+
+  // Apply the gain that brings a recording to the target level. A limiter catches the peaks
+  // that would otherwise clip, e.g. when a quiet recording with a few loud moments is raised.
+  async normalizeRecording(
+    recording: AudioFile,
+    target: NormalizationTarget,
+    mode: EditSaveMode
+  ): Promise<AudioFile | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    const gainDb = normalizationGainDb(measureLoudness(audio), target);
+    if (gainDb === null) {
+      console.warn('Recording is too quiet to normalize:', recording.uri);
+      return null;
+    }
+
+    const ceilingDb = target.mode === 'peak' ? Math.min(target.peakDb, LIMITER_CEILING_DB) : LIMITER_CEILING_DB;
+    const edit: RecordingEdit = { type: 'gain', gainDb, ceilingDb };
+    const normalized = applyEdit(audio, edit);
+    const loudness = roundMeasurement(measureLoudness(normalized));
+
+    if (mode === 'replace') {
+      return this.addEdit(recording, edit, normalized, { loudness });
+    }
+    return this.saveCopy(normalized, new Date(), {
+      title: `${recording.title} (normalized)`,
+      format: recording.format,
+      bookmarks: recording.bookmarks,
+      loops: recording.loops,
+      provenance: { operation: 'normalize', sources: [describeSource(recording, 0, wavDurationMillis(audio))] },
+      loudness,
+    });
+  }
+
+  // Mix a recording down to mono and/or change its sample rate. With an edit list, the kept source
+  // is converted as well, so undoing an edit doesn't bring the old format back.
+  async convertRecording(
+    recording: AudioFile,
+    options: ConversionOptions,
+    mode: EditSaveMode
+  ): Promise<ConversionResult | null> {
+    const audio = await this.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    const converted = await convertAudioInChunks(audio, options);
+    const format = { ...recording.format, sampleRate: converted.sampleRate, channels: converted.channelData.length };
+
+    if (mode === 'copy') {
+      const copy = await this.saveCopy(converted, new Date(), {
+        title: `${recording.title} (converted)`,
+        format,
+        bookmarks: recording.bookmarks,
+        loops: recording.loops,
+        provenance: { operation: 'convert', sources: [describeSource(recording, 0, wavDurationMillis(audio))] },
+      });
+      return copy && { recording: copy, savedBytes: recording.size - copy.size };
+    }
+
+    let savedBytes = 0;
+    if (recording.editList) {
+      const sourceUri = this.sourceUri(recording);
+      const source = await this.decodeFile(sourceUri);
+      if (!source) {
+        return null;
+      }
+      try {
+        const before = await FileSystem.getInfoAsync(sourceUri);
+        const tempUri = `${FileSystem.cacheDirectory}source_${recording.id}.wav`;
+        await this.writeAudio(tempUri, await convertAudioInChunks(source, options));
+        await FileSystem.deleteAsync(sourceUri, { idempotent: true });
+        await FileSystem.moveAsync({ from: tempUri, to: sourceUri });
+        const after = await FileSystem.getInfoAsync(sourceUri);
+        savedBytes += (before.exists ? before.size : 0) - (after.exists ? after.size : 0);
+      } catch (error) {
+        console.error('Failed to convert the original recording:', error);
+        return null;
+      }
+    }
+
+    const replaced = await this.replaceAudio(recording, converted, { format });
+    return replaced && { recording: replaced, savedBytes: savedBytes + recording.size - replaced.size };
+  }
+
+  // Normalize recordings one after another, returns how many succeeded
+  async normalizeRecordings(
+    recordings: AudioFile[],
+    target: NormalizationTarget,
+    mode: EditSaveMode,
+    onProgress?: (done: number) => void
+  ) {
+    let succeeded = 0;
+    for (const [index, recording] of recordings.entries()) {
+      if (await this.normalizeRecording(recording, target, mode)) {
+        succeeded++;
+      }
+      onProgress?.(index + 1);
+    }
+    return succeeded;
+  }
+
+  // Take back the last edit in effect
+  async undo(recording: AudioFile): Promise<AudioFile | null> {
+    return this.renderEditList(recording, (recording.editList?.applied ?? 0) - 1);
+  }
+
+  // Put the next undone edit back into effect
+  async redo(recording: AudioFile): Promise<AudioFile | null> {
+    return this.renderEditList(recording, (recording.editList?.applied ?? 0) + 1);
+  }
+
+  // Drop the edit list and put the untouched source back in place of the rendered file
+  async revertToOriginal(recording: AudioFile): Promise<AudioFile | null> {
+    const list = recording.editList;
+    if (!list) {
+      return recording;
+    }
+
+    const source = await this.decodeFile(this.sourceUri(recording));
+    if (!source) {
+      return null;
+    }
+
+    const applied = list.edits.slice(0, list.applied);
+    try {
+      await PlaybackController.forgetRecording(recording.id);
+      await FileSystem.deleteAsync(recording.uri, { idempotent: true });
+      await FileSystem.moveAsync({ from: this.sourceUri(recording), to: recording.uri });
+
+      return await RecordingStore.reindex(recording.id, {
+        ...markerChanges(sourceMarkers(list, markersOf(recording))),
+        ...progressChanges(applied),
+        loudness: undefined,
+        waveform: waveformFromAudio(source),
+        editList: undefined,
+      });
+    } catch (error) {
+      console.error('Failed to revert recording:', error);
+      return null;
+    }
+  }
+
+  // Write processed audio to a scratch file so it can be played before anything is saved.
+  // The preview has its own id, so playing it doesn't touch the recording's saved position.
+  async writePreview(recording: AudioFile, audio: WavAudio): Promise<AudioFile | null> {
+    try {
+      const uri = this.previewUri(recording.id);
+      await this.writeAudio(uri, audio);
+      return {
+        ...recording,
+        id: this.previewId(recording.id),
+        uri,
+        duration: wavDurationMillis(audio),
+        waveform: waveformFromAudio(audio),
+        bookmarks: undefined,
+        loops: undefined,
+        playbackProgress: undefined,
+      };
+    } catch (error) {
+      console.error('Failed to write preview:', error);
+      return null;
+    }
+  }
+
+  async discardPreview(recordingId: string) {
+    try {
+      await PlaybackController.forgetRecording(this.previewId(recordingId));
+      await FileSystem.deleteAsync(this.previewUri(recordingId), { idempotent: true });
+    } catch (error) {
+      console.warn('Failed to delete preview:', error);
+    }
+  }
+
+  // Keep audio run through the clean-up pipeline with these options, see cleanUpAudio
+  async saveCleanedAudio(
+    recording: AudioFile,
+    options: CleanupOptions,
+    cleaned: WavAudio,
+    mode: EditSaveMode
+  ): Promise<AudioFile | null> {
+    if (mode === 'replace') {
+      return this.addEdit(recording, { type: 'filter', options }, cleaned);
+    }
+    return this.saveCopy(cleaned, new Date(), {
+      title: `${recording.title} (cleaned up)`,
+      format: recording.format,
+      bookmarks: recording.bookmarks,
+      loops: recording.loops,
+      provenance: { operation: 'cleanup', sources: [describeSource(recording, 0, wavDurationMillis(cleaned))] },
+    });
+  }
+
+  // Keep the frames nearest to two positions, either as a copy or in place of the original
+  private async trimAudio(
+    recording: AudioFile,
+    audio: WavAudio,
+    startMillis: number,
+    endMillis: number,
+    mode: EditSaveMode
+  ): Promise<AudioFile | null> {
+    const startFrame = millisToFrame(audio, startMillis);
+    const endFrame = millisToFrame(audio, endMillis);
+    if (endFrame <= startFrame) {
+      console.warn('Nothing left to keep after trimming:', recording.uri);
+      return null;
+    }
+
+    // Markers follow the audio they point at, measured from the frames actually cut
+    const keptStart = frameToMillis(audio, startFrame);
+    const keptEnd = frameToMillis(audio, endFrame);
+    const trimmed = sliceAudio(audio, startFrame, endFrame);
+
+    if (mode === 'replace') {
+      return this.addEdit(recording, { type: 'trim', startMillis: keptStart, endMillis: keptEnd }, trimmed);
+    }
+    return this.saveCopy(trimmed, new Date(), {
+      title: `${recording.title} (trimmed)`,
+      format: recording.format,
+      bookmarks: nonEmpty(trimBookmarks(recording.bookmarks ?? [], keptStart, keptEnd)),
+      loops: nonEmpty(trimLoops(recording.loops ?? [], keptStart, keptEnd)),
+      provenance: { operation: 'trim', sources: [describeSource(recording, keptStart, keptEnd)] },
+    });
+  }
+
+  // Add an edit to the end of a recording's edit list, in place of any that were undone, and save
+  // the audio it renders to, ahead of any playback (see EditList). The first edit puts the untouched
+  // file aside as the source.
+  private async addEdit(
+    recording: AudioFile,
+    edit: RecordingEdit,
+    rendered: WavAudio,
+    changes: RecordingChanges = {}
+  ): Promise<AudioFile | null> {
+    if (!recording.editList) {
+      try {
+        await FileSystem.makeDirectoryAsync(Paths.sources, { intermediates: true });
+        await FileSystem.copyAsync({ from: recording.uri, to: this.sourceUri(recording) });
+      } catch (error) {
+        console.error('Failed to keep the original recording:', error);
+        return null;
+      }
+    }
+
+    const list = recording.editList ?? { edits: [], applied: 0 };
+    const markers = sourceMarkers(list, markersOf(recording));
+    const next: EditList = { edits: [...list.edits.slice(0, list.applied), edit], applied: list.applied + 1, markers };
+    return this.replaceAudio(recording, rendered, {
+      ...markerChanges(displayedMarkers(next, markers)),
+      ...progressChanges([edit]),
+      editList: next,
+      ...changes,
+    });
+  }
+
+  // Render the source again with the first `applied` edits in effect
+  private async renderEditList(recording: AudioFile, applied: number): Promise<AudioFile | null> {
+    const list = recording.editList;
+    if (!list || applied < 0 || applied > list.edits.length) {
+      return null;
+    }
+
+    const source = await this.decodeFile(this.sourceUri(recording));
+    if (!source) {
+      return null;
+    }
+
+    const markers = sourceMarkers(list, markersOf(recording));
+    const toggled = list.edits.slice(Math.min(applied, list.applied), Math.max(applied, list.applied));
+    return this.replaceAudio(recording, renderEdits(source, list.edits.slice(0, applied)), {
+      ...markerChanges(displayedMarkers(list, markers, applied)),
+      ...progressChanges(toggled),
+      editList: { edits: list.edits, applied, markers },
+    });
+  }
+
+  // Save edited audio into the library as a new recording
+  private async saveCopy(audio: WavAudio, createdAt: Date, details: EditedRecordingDetails): Promise<AudioFile | null> {
+    try {
+      const id = createdAt.getTime().toString();
+      const filename = `recording_${id}.wav`;
+      await this.writeAudio(`${Paths.recordings}${filename}`, audio);
+
+      return await RecordingStore.add(filename, {
+        ...details,
+        id,
+        createdAt,
+        duration: wavDurationMillis(audio),
+        waveform: waveformFromAudio(audio),
+      });
+    } catch (error) {
+      console.error('Failed to save edited recording:', error);
+      return null;
+    }
+  }
+
+  // Overwrite a recording's file with edited audio. Levels measured before the edit are dropped
+  // unless the changes bring new ones.
+  private async replaceAudio(recording: AudioFile, audio: WavAudio, changes: RecordingChanges): Promise<AudioFile | null> {
+    try {
+      // The player may hold the old file open
+      await PlaybackController.forgetRecording(recording.id);
+
+      // Write to a temporary file first so a failed write leaves the original intact
+      const tempUri = `${FileSystem.cacheDirectory}edit_${recording.id}.wav`;
+      await this.writeAudio(tempUri, audio);
+      await FileSystem.deleteAsync(recording.uri, { idempotent: true });
+      await FileSystem.moveAsync({ from: tempUri, to: recording.uri });
+
+      return await RecordingStore.reindex(recording.id, {
+        loudness: undefined,
+        ...changes,
+        waveform: waveformFromAudio(audio),
+      });
+    } catch (error) {
+      console.error('Failed to replace recording:', error);
+      return null;
+    }
+  }
+
+  private async decodeFile(uri: string): Promise<WavAudio | null> {
+    try {
+      // The kept source of an edited recording can be larger than the recording itself
+      const info = await FileSystem.getInfoAsync(uri);
+      if (info.exists && info.size > MAX_DECODE_BYTES) {
+        console.warn('WAV file is too large to decode:', uri);
+        return null;
+      }
+
+      const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+      const audio = decodeWav(decodeBase64(base64));
+      if (!audio) {
+        console.warn('Could not decode WAV file:', uri);
+      }
+      return audio;
+    } catch (error) {
+      console.error('Failed to read recording:', error);
+      return null;
+    }
+  }
+
+  private sourceUri(recording: AudioFile) {
+    return `${Paths.sources}${recording.filename}`;
+  }
+
+  private previewId(recordingId: string) {
+    return `${recordingId}-preview`;
+  }
+
+  private previewUri(recordingId: string) {
+    return `${FileSystem.cacheDirectory}preview_${recordingId}.wav`;
+  }
+
+  private async writeAudio(uri: string, audio: WavAudio) {
+    await FileSystem.writeAsStringAsync(uri, encodeBase64(encodeWav(audio)), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+}
+
+export default new RecordingEditor();
@@ -0,0 +1,106 @@
+import * as FileSystem from 'expo-file-system';
+
+import { Paths } from '@/constants/Paths';
+import type { AudioFile } from '@/services/AudioService';
+import RecordingEditor from '@/services/RecordingEditor';
+import { encodeBase64 } from '@/utils/base64';
+import { encodeFlac } from '@/utils/flac';
+import { WavAudio } from '@/utils/wav';
+
+export interface ExportedFile {
+  uri: string;
+  filename: string;
+  // Bytes
+  size: number;
+}
+
+// WAV LIST/INFO tags and the Vorbis comment fields they are carried over to
+const INFO_COMMENTS: Record<string, string> = {
+  IART: 'ARTIST',
+  ICMT: 'COMMENT',
+  ICOP: 'COPYRIGHT',
+  IGNR: 'GENRE',
+  IPRD: 'ALBUM',
+  ISFT: 'ENCODED-BY',
+};
+
+// HH:MM:SS.mmm, the time format of Vorbis chapter comments
+function chapterTime(millis: number) {
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  const rounded = Math.round(millis);
+  const seconds = Math.floor(rounded / 1000);
+  const hours = Math.floor(seconds / 3600);
+  return `${pad(hours)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}.${pad(rounded % 1000, 3)}`;
+}
+
+// Bookmarks become chapters named by their labels; loops have no tag of their own, so they go in comments
+function markerComments(recording: AudioFile): [string, string][] {
+  const chapters = (recording.bookmarks ?? []).flatMap((bookmark, index): [string, string][] => {
+    const key = `CHAPTER${(index + 1).toString().padStart(3, '0')}`;
+    return [[key, chapterTime(bookmark.positionMillis)], [`${key}NAME`, bookmark.label ?? '']];
+  });
+  const loops = (recording.loops ?? []).map((loop): [string, string] => [
+    'COMMENT',
+    `Loop ${chapterTime(loop.startMillis)}-${chapterTime(loop.endMillis)}${loop.label ? `: ${loop.label}` : ''}`,
+  ]);
+  return [...chapters, ...loops];
+}
+
+// Title, recording date and markers from the library, and whatever tags the WAV file carries
+function flacComments(recording: AudioFile, audio: WavAudio): [string, string][] {
+  const tags = Object.entries(audio.info)
+    .filter(([id]) => id in INFO_COMMENTS)
+    .map(([id, text]): [string, string] => [INFO_COMMENTS[id], text]);
+  return [
+    ['TITLE', recording.title],
+    ['DATE', recording.createdAt.toISOString()],
+    ...markerComments(recording),
+    ...tags,
+  ];
+}
+
+// Readable names, kept apart by the recording id since titles needn't be unique
+function exportFilename(recording: AudioFile, extension: string) {
+  const title = recording.title.replace(/[^\w\- ]+/g, '_').trim() || 'Recording';
+  return `${title}_${recording.id}${extension}`;
+}
+
+// Writes recordings out in other formats, into the exports directory where they can be shared.
+// Like editing, this needs the audio decoded, so only WAV recordings can be exported. Compressed
+// recordings (AAC on Android) aren't decoded; the screens say so next to the export buttons.
+class RecordingExporter {
+  // Encode a recording as FLAC at a compression level from 0 (fastest) to 8 (smallest)
+  async exportFlac(recording: AudioFile, level: number): Promise<ExportedFile | null> {
+    const audio = await RecordingEditor.readAudio(recording);
+    if (!audio) {
+      return null;
+    }
+
+    try {
+      const bytes = encodeFlac(audio, { level, comments: flacComments(recording, audio) });
+      const filename = exportFilename(recording, '.flac');
+      const uri = `${Paths.exports}${filename}`;
+      await FileSystem.makeDirectoryAsync(Paths.exports, { intermediates: true });
+      await FileSystem.writeAsStringAsync(uri, encodeBase64(bytes), { encoding: FileSystem.EncodingType.Base64 });
+      return { uri, filename, size: bytes.length };
+    } catch (error) {
+      console.error('Failed to export recording:', error);
+      return null;
+    }
+  }
+
+  // Export recordings one after another, returns the files that were written
+  async exportRecordingsFlac(recordings: AudioFile[], level: number, onProgress?: (done: number) => void) {
+    const exported: ExportedFile[] = [];
+    for (const [index, recording] of recordings.entries()) {
+      const file = await this.exportFlac(recording, level);
+      if (file) {
+        exported.push(file);
+      }
+      onProgress?.(index + 1);
+    }
+    return exported;
+  }
+}
+
+export default new RecordingExporter();
@@ -0,0 +1,358 @@
+import * as FileSystem from 'expo-file-system';
+
+import { Paths } from '@/constants/Paths';
+import { RecordingFormat } from '@/constants/RecordingPresets';
+import type {
+  AudioFile,
+  Bookmark,
+  EditList,
+  PlaybackProgress,
+  RecordingProvenance,
+  RecordingSession,
+  SavedLoop,
+} from '@/services/AudioService';
+import { decodeBase64 } from '@/utils/base64';
+import type { LoudnessMeasurement } from '@/utils/loudness';
+import { parseWavHeader, WavInfo, WAV_HEADER_PROBE_SIZE } from '@/utils/wav';
+
+// Bump this whenever a field is added that older entries can't leave out, or an existing field
+// changes meaning, and teach migrateManifest how to upgrade older files
+export const MANIFEST_VERSION = 2;
+
+const AUDIO_EXTENSIONS = ['.wav', '.m4a', '.webm'];
+
+// A recording as stored in the manifest. The uri is rebuilt from the filename on load.
+interface ManifestEntry {
+  id: string;
+  filename: string;
+  title: string;
+  duration: number;
+  size: number;
+  sampleRate: number;
+  channels: number;
+  createdAt: number;
+  format: RecordingFormat;
+  waveform?: number[];
+  session?: RecordingSession;
+  bookmarks?: Bookmark[];
+  playbackRate?: number;
+  playbackProgress?: PlaybackProgress;
+  loops?: SavedLoop[];
+  provenance?: RecordingProvenance;
+  loudness?: LoudnessMeasurement;
+  editList?: EditList;
+}
+
+interface Manifest {
+  version: number;
+  recordings: ManifestEntry[];
+}
+
+export interface NewRecordingDetails {
+  id: string;
+  title: string;
+  createdAt: Date;
+  // Used when the file has no readable WAV header
+  duration: number;
+  format: RecordingFormat;
+  waveform?: number[];
+  session?: RecordingSession;
+  bookmarks?: Bookmark[];
+  loops?: SavedLoop[];
+  provenance?: RecordingProvenance;
+  loudness?: LoudnessMeasurement;
+}
+
+// Fields of a recording that can be edited after it was saved
+export type RecordingChanges = Partial<
+  Pick<
+    ManifestEntry,
+    | 'title'
+    | 'format'
+    | 'waveform'
+    | 'bookmarks'
+    | 'playbackRate'
+    | 'playbackProgress'
+    | 'loops'
+    | 'loudness'
+    | 'editList'
+  >
+>;
+
+function isAudioFile(filename: string) {
+  return AUDIO_EXTENSIONS.some(extension => filename.toLowerCase().endsWith(extension));
+}
+
+function stripExtension(filename: string) {
+  return filename.replace(/\.[^.]+$/, '');
+}
+
+// Best guess at the format of a file we have no metadata for
+function detectFormat(filename: string, wavInfo: WavInfo | null): RecordingFormat {
+  if (wavInfo) {
+    return {
+      container: 'wav',
+      codec: 'pcm',
+      mimeType: 'audio/wav',
+      sampleRate: wavInfo.sampleRate,
+      channels: wavInfo.channels,
+      bitDepth: wavInfo.bitsPerSample,
+    };
+  }
+  if (filename.toLowerCase().endsWith('.webm')) {
+    return { container: 'webm', codec: 'opus', mimeType: 'audio/webm', sampleRate: 0, channels: 0 };
+  }
+  return { container: 'm4a', codec: 'aac', mimeType: 'audio/mp4', sampleRate: 0, channels: 0 };
+}
+
+// Upgrade a manifest written by an older version of the app, or return null if it can't be
+function migrateManifest(manifest: Manifest): Manifest | null {
+  if (!Array.isArray(manifest.recordings)) {
+    return null;
+  }
+
+  let recordings = manifest.recordings;
+  switch (manifest.version) {
+    case 1:
+      // Version 1 only knew about WAV files recorded with the fixed 16-bit settings
+      recordings = recordings.map(entry => ({
+        ...entry,
+        format: {
+          container: 'wav',
+          codec: 'pcm',
+          mimeType: 'audio/wav',
+          sampleRate: entry.sampleRate,
+          channels: entry.channels,
+          bitDepth: 16,
+        },
+      }));
+    // falls through
+    case MANIFEST_VERSION:
+      return { version: MANIFEST_VERSION, recordings };
+    default:
+      return null;
+  }
+}
+
+function toAudioFile(entry: ManifestEntry): AudioFile {
+  return {
+    ...entry,
+    uri: `${Paths.recordings}${entry.filename}`,
+    createdAt: new Date(entry.createdAt),
+  };
+}
+
+class RecordingIndex {
+  private entries: ManifestEntry[] = [];
+  private loaded = false;
+  private needsUpgrade = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // Make sure the recordings directory exists
+  async init() {
+    const dirInfo = await FileSystem.getInfoAsync(Paths.recordings);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(Paths.recordings, { intermediates: true });
+    }
+  }
+
+  // Read the manifest and reconcile it with the files actually in the recordings directory.
+  // Missing, outdated or unreadable manifests are rebuilt from the WAV headers.
+  async load(): Promise<AudioFile[]> {
+    await this.init();
+
+    const manifest = await this.readManifest();
+    const known = new Map((manifest?.recordings ?? []).map(entry => [entry.filename, entry]));
+    const filenames = (await FileSystem.readDirectoryAsync(Paths.recordings)).filter(isAudioFile);
+    let stale = !manifest || this.needsUpgrade || manifest.recordings.length !== filenames.length;
+    this.needsUpgrade = false;
+
+    const entries = await Promise.all(filenames.map(async filename => {
+      const uri = `${Paths.recordings}${filename}`;
+      const fileInfo = await FileSystem.getInfoAsync(uri);
+      const size = fileInfo.exists ? fileInfo.size : 0;
+      const entry = known.get(filename);
+
+      // A size change means the file was rewritten behind our back
+      if (entry && entry.size === size) {
+        return entry;
+      }
+
+      stale = true;
+      const modified = fileInfo.exists ? fileInfo.modificationTime * 1000 : Date.now();
+      const wavInfo = await this.readWavInfo(uri, size);
+
+      return {
+        id: entry?.id ?? stripExtension(filename),
+        filename,
+        title: entry?.title ?? stripExtension(filename),
+        duration: wavInfo?.duration ?? entry?.duration ?? 0,
+        size,
+        sampleRate: wavInfo?.sampleRate ?? entry?.sampleRate ?? 0,
+        channels: wavInfo?.channels ?? entry?.channels ?? 0,
+        createdAt: entry?.createdAt ?? modified,
+        format: entry?.format ?? detectFormat(filename, wavInfo),
+        waveform: entry?.waveform,
+        session: entry?.session,
+        bookmarks: entry?.bookmarks,
+        playbackRate: entry?.playbackRate,
+        playbackProgress: entry?.playbackProgress,
+        loops: entry?.loops,
+        provenance: entry?.provenance,
+        // Loudness isn't carried over, it was measured from the old contents.
+        // The edit list is, since the source it applies to is kept apart.
+        editList: entry?.editList,
+      };
+    }));
+
+    this.entries = entries;
+    this.loaded = true;
+    if (stale) {
+      console.log(`Rebuilt recordings manifest with ${entries.length} entries`);
+      await this.persist();
+    }
+
+    return entries.map(toAudioFile);
+  }
+
+  // Register a file that was just saved into the recordings directory
+  async add(filename: string, details: NewRecordingDetails): Promise<AudioFile> {
+    await this.ensureLoaded();
+
+    const uri = `${Paths.recordings}${filename}`;
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    const size = fileInfo.exists ? fileInfo.size : 0;
+    const wavInfo = await this.readWavInfo(uri, size);
+
+    const entry: ManifestEntry = {
+      id: details.id,
+      filename,
+      title: details.title,
+      duration: wavInfo?.duration ?? details.duration,
+      size,
+      sampleRate: wavInfo?.sampleRate ?? details.format.sampleRate,
+      channels: wavInfo?.channels ?? details.format.channels,
+      createdAt: details.createdAt.getTime(),
+      format: details.format,
+      waveform: details.waveform,
+      session: details.session,
+      bookmarks: details.bookmarks,
+      loops: details.loops,
+      provenance: details.provenance,
+      loudness: details.loudness,
+    };
+
+    this.entries = [...this.entries.filter(e => e.filename !== filename), entry];
+    await this.persist();
+    return toAudioFile(entry);
+  }
+
+  // Change the editable fields of a recording
+  async update(id: string, changes: RecordingChanges): Promise<AudioFile | null> {
+    await this.ensureLoaded();
+
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) {
+      return null;
+    }
+
+    const updated = { ...entry, ...changes };
+    this.entries = this.entries.map(e => (e.id === id ? updated : e));
+    await this.persist();
+    return toAudioFile(updated);
+  }
+
+  // Pick up the new size and WAV header of a file that was rewritten in place, along with other changes
+  async reindex(id: string, changes: RecordingChanges): Promise<AudioFile | null> {
+    await this.ensureLoaded();
+
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) {
+      return null;
+    }
+
+    const uri = `${Paths.recordings}${entry.filename}`;
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    const size = fileInfo.exists ? fileInfo.size : 0;
+    const wavInfo = await this.readWavInfo(uri, size);
+
+    const updated: ManifestEntry = {
+      ...entry,
+      ...changes,
+      size,
+      duration: wavInfo?.duration ?? entry.duration,
+      sampleRate: wavInfo?.sampleRate ?? entry.sampleRate,
+      channels: wavInfo?.channels ?? entry.channels,
+    };
+    this.entries = this.entries.map(e => (e.id === id ? updated : e));
+    await this.persist();
+    return toAudioFile(updated);
+  }
+
+  // Drop a recording from the manifest after its file has been deleted
+  async remove(id: string) {
+    await this.ensureLoaded();
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    await this.persist();
+  }
+
+  private async ensureLoaded() {
+    if (!this.loaded) {
+      await this.load();
+    }
+  }
+
+  private async readManifest(): Promise<Manifest | null> {
+    try {
+      const info = await FileSystem.getInfoAsync(Paths.manifest);
+      if (!info.exists) {
+        return null;
+      }
+
+      const stored = JSON.parse(await FileSystem.readAsStringAsync(Paths.manifest)) as Manifest;
+      const manifest = migrateManifest(stored);
+      if (!manifest) {
+        console.warn(`Ignoring recordings manifest version ${stored.version}`);
+        return null;
+      }
+      if (stored.version !== MANIFEST_VERSION) {
+        // Write the upgraded manifest back on this load
+        this.needsUpgrade = true;
+      }
+
+      return manifest;
+    } catch (error) {
+      console.error('Failed to read recordings manifest:', error);
+      return null;
+    }
+  }
+
+  private async readWavInfo(uri: string, size: number): Promise<WavInfo | null> {
+    if (size === 0) {
+      return null;
+    }
+
+    try {
+      const header = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: Math.min(size, WAV_HEADER_PROBE_SIZE),
+      });
+      return parseWavHeader(decodeBase64(header), size);
+    } catch (error) {
+      console.warn('Failed to read WAV header:', uri, error);
+      return null;
+    }
+  }
+
+  // Writes are chained so overlapping updates land in order
+  private persist() {
+    const manifest: Manifest = { version: MANIFEST_VERSION, recordings: this.entries };
+    this.writeQueue = this.writeQueue
+      .then(() => FileSystem.writeAsStringAsync(Paths.manifest, JSON.stringify(manifest)))
+      .catch(error => console.error('Failed to write recordings manifest:', error));
+    return this.writeQueue;
+  }
+}
+
+export default new RecordingIndex();
@@ -0,0 +1,56 @@
+import * as FileSystem from 'expo-file-system';
+
+import { Paths } from '@/constants/Paths';
+import { RecordingFormat } from '@/constants/RecordingPresets';
+
+// A recorder that was started but whose file has not been saved into the library yet
+export interface JournalEntry {
+  // Where the recorder is writing, usually in the cache directory
+  tempUri: string;
+  startedAt: number;
+  format: RecordingFormat;
+  extension: string;
+  // Start of the file that isn't kept, when a monitor became the recording
+  leadInMillis?: number;
+}
+
+// Write-ahead log of in-progress recordings, so audio survives the app being killed mid-recording
+class RecordingJournal {
+  private entries: JournalEntry[] | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  async list(): Promise<JournalEntry[]> {
+    if (!this.entries) {
+      try {
+        const info = await FileSystem.getInfoAsync(Paths.journal);
+        this.entries = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(Paths.journal)) : [];
+      } catch (error) {
+        console.error('Failed to read recording journal:', error);
+        this.entries = [];
+      }
+    }
+    return this.entries ?? [];
+  }
+
+  async add(entry: JournalEntry) {
+    const entries = await this.list();
+    this.entries = [...entries.filter(e => e.tempUri !== entry.tempUri), entry];
+    await this.persist();
+  }
+
+  async remove(tempUri: string) {
+    const entries = await this.list();
+    this.entries = entries.filter(entry => entry.tempUri !== tempUri);
+    await this.persist();
+  }
+
+  private persist() {
+    const entries = this.entries ?? [];
+    this.writeQueue = this.writeQueue
+      .then(() => FileSystem.writeAsStringAsync(Paths.journal, JSON.stringify(entries)))
+      .catch(error => console.error('Failed to write recording journal:', error));
+    return this.writeQueue;
+  }
+}
+
+export default new RecordingJournal();
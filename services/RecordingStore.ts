@@ -0,0 +1,100 @@
+import type { AudioFile } from '@/services/AudioService';
+import RecordingIndex, { NewRecordingDetails, RecordingChanges } from '@/services/RecordingIndex';
+
+export type RecordingsListener = (recordings: AudioFile[]) => void;
+
+function sortNewestFirst(recordings: AudioFile[]) {
+  return [...recordings].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// In-memory list of recordings backed by the manifest. Every screen and hook reads
+// from here, so a change made anywhere is pushed to all subscribers immediately.
+class RecordingStore {
+  private recordings: AudioFile[] = [];
+  private listeners = new Set<RecordingsListener>();
+  private loading: Promise<AudioFile[]> | null = null;
+  private loaded = false;
+
+  // Register a listener, returns a function that removes it again
+  subscribe(listener: RecordingsListener) {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: RecordingsListener) {
+    this.listeners.delete(listener);
+  }
+
+  // Current snapshot, newest first
+  getRecordings() {
+    return this.recordings;
+  }
+
+  isLoaded() {
+    return this.loaded;
+  }
+
+  getRecording(id: string) {
+    return this.recordings.find(recording => recording.id === id) ?? null;
+  }
+
+  // Reload from disk. Concurrent callers share the same load.
+  refresh(): Promise<AudioFile[]> {
+    if (!this.loading) {
+      this.loading = RecordingIndex.load()
+        .then(recordings => {
+          this.loaded = true;
+          this.setRecordings(recordings);
+          return this.recordings;
+        })
+        .catch(error => {
+          console.error('Failed to load recordings:', error);
+          return this.recordings;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  // Register a file that was just saved into the recordings directory
+  async add(filename: string, details: NewRecordingDetails): Promise<AudioFile> {
+    const recording = await RecordingIndex.add(filename, details);
+    this.setRecordings([...this.recordings.filter(r => r.id !== recording.id), recording]);
+    return recording;
+  }
+
+  async rename(id: string, title: string): Promise<AudioFile | null> {
+    return this.update(id, { title });
+  }
+
+  async update(id: string, changes: RecordingChanges): Promise<AudioFile | null> {
+    const recording = await RecordingIndex.update(id, changes);
+    if (recording) {
+      this.setRecordings(this.recordings.map(r => (r.id === id ? recording : r)));
+    }
+    return recording;
+  }
+
+  // Refresh a recording whose file was rewritten, e.g. after trimming it
+  async reindex(id: string, changes: RecordingChanges = {}): Promise<AudioFile | null> {
+    const recording = await RecordingIndex.reindex(id, changes);
+    if (recording) {
+      this.setRecordings(this.recordings.map(r => (r.id === id ? recording : r)));
+    }
+    return recording;
+  }
+
+  async remove(id: string) {
+    await RecordingIndex.remove(id);
+    this.setRecordings(this.recordings.filter(r => r.id !== id));
+  }
+
+  private setRecordings(recordings: AudioFile[]) {
+    this.recordings = sortNewestFirst(recordings);
+    this.listeners.forEach(listener => listener(this.recordings));
+  }
+}
+
+export default new RecordingStore();
@@ -0,0 +1,132 @@
+import * as FileSystem from 'expo-file-system';
+
+import { DEFAULT_NORMALIZATION_TARGET } from '@/constants/Loudness';
+import { Paths } from '@/constants/Paths';
+import { DEFAULT_PLAYBACK_RATE } from '@/constants/PlaybackRates';
+import { DEFAULT_RECORDING_PRESET, RecordingPresetId } from '@/constants/RecordingPresets';
+import { FadeCurve } from '@/utils/audioEdit';
+import { DEFAULT_FLAC_LEVEL } from '@/utils/flac';
+import { NormalizationTarget } from '@/utils/loudness';
+import { ConversionOptions } from '@/utils/resample';
+import { SilenceTrimOptions } from '@/utils/silence';
+
+export interface Settings {
+  recordingPreset: RecordingPresetId;
+  // Wait for the input to pass the threshold before recording
+  voiceActivated: boolean;
+  voiceThresholdDb: number;
+  // Seconds below the threshold before the recording stops or splits
+  silenceTimeout: number;
+  silenceAction: 'stop' | 'split';
+  // Split long WAV recordings into parts of a duration or size once they stop
+  segmentMode: 'off' | 'duration' | 'size';
+  segmentMinutes: number;
+  segmentMegabytes: number;
+  // Cut the silence off both ends of a recording once it stops
+  trimSilence: boolean;
+  trimSilenceThresholdDb: number;
+  // Seconds of silence at an end before it is cut
+  trimSilenceSeconds: number;
+  // Speed used for recordings without their own
+  playbackRate: number;
+  // Level recordings are brought to when normalizing
+  normalizationTarget: NormalizationTarget;
+  // Fades applied in the editor
+  fadeCurve: FadeCurve;
+  fadeMillis: number;
+  // Overlap between recordings when merging, zero joins them back to back
+  crossfadeMillis: number;
+  // Convert new recordings once they stop, to save space
+  convertAfterRecording: boolean;
+  // Format recordings are converted to, after recording and in the editor
+  conversion: ConversionOptions;
+  // FLAC compression level for exports, 0 to 8
+  flacLevel: number;
+}
+
+// What the silence detection needs from the settings
+export function silenceTrimOptions(settings: Settings): SilenceTrimOptions {
+  return { thresholdDb: settings.trimSilenceThresholdDb, minSilenceMillis: settings.trimSilenceSeconds * 1000 };
+}
+
+export type SettingsListener = (settings: Settings) => void;
+
+const DEFAULT_SETTINGS: Settings = {
+  recordingPreset: DEFAULT_RECORDING_PRESET,
+  voiceActivated: false,
+  voiceThresholdDb: -40,
+  silenceTimeout: 3,
+  silenceAction: 'stop',
+  segmentMode: 'off',
+  segmentMinutes: 30,
+  segmentMegabytes: 100,
+  trimSilence: false,
+  trimSilenceThresholdDb: -50,
+  trimSilenceSeconds: 1,
+  playbackRate: DEFAULT_PLAYBACK_RATE,
+  normalizationTarget: DEFAULT_NORMALIZATION_TARGET,
+  fadeCurve: 'sCurve',
+  fadeMillis: 500,
+  crossfadeMillis: 0,
+  convertAfterRecording: false,
+  conversion: { mono: true, sampleRate: 22050 },
+  flacLevel: DEFAULT_FLAC_LEVEL,
+};
+
+// User preferences persisted as JSON next to the recordings
+class SettingsService {
+  private settings: Settings = DEFAULT_SETTINGS;
+  private listeners = new Set<SettingsListener>();
+  private loading: Promise<Settings> | null = null;
+
+  subscribe(listener: SettingsListener) {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: SettingsListener) {
+    this.listeners.delete(listener);
+  }
+
+  get() {
+    return this.settings;
+  }
+
+  // Read the settings file once, later calls share the result
+  load(): Promise<Settings> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const info = await FileSystem.getInfoAsync(Paths.settings);
+          if (info.exists) {
+            const stored = JSON.parse(await FileSystem.readAsStringAsync(Paths.settings));
+            // Unknown or missing keys fall back to their defaults
+            this.setSettings({ ...DEFAULT_SETTINGS, ...stored });
+          }
+        } catch (error) {
+          console.error('Failed to read settings:', error);
+        }
+        return this.settings;
+      })();
+    }
+    return this.loading;
+  }
+
+  async update(changes: Partial<Settings>) {
+    await this.load();
+    this.setSettings({ ...this.settings, ...changes });
+
+    try {
+      await FileSystem.writeAsStringAsync(Paths.settings, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to write settings:', error);
+    }
+  }
+
+  private setSettings(settings: Settings) {
+    this.settings = settings;
+    this.listeners.forEach(listener => listener(settings));
+  }
+}
+
+export default new SettingsService();
@@ -0,0 +1,136 @@
+import { Audio } from 'expo-av';
+
+import AudioService, { StoppedRecording } from '@/services/AudioService';
+import SettingsService from '@/services/SettingsService';
+import {
+  INITIAL_VOICE_ACTIVITY_STATE,
+  stepVoiceActivity,
+  VoiceActivityState,
+} from '@/utils/voiceActivity';
+
+export type ArmedListener = (armed: boolean) => void;
+
+// Audio kept from before the level passed the threshold, so the first syllable isn't clipped
+const PRE_ROLL_MILLIS = 1000;
+// While waiting, the monitor is started over this often, so it doesn't pile up audio to cut off
+const MONITOR_RESTART_MILLIS = 10000;
+
+// Drives AudioService from the input meter: while armed it monitors the microphone, turns the
+// monitor into the recording once the level passes the threshold, keeping a moment from before,
+// and stops or splits it after a stretch of silence.
+class VoiceActivatedRecorder {
+  private armed = false;
+  private detector: VoiceActivityState = INITIAL_VOICE_ACTIVITY_STATE;
+  private stopListening: (() => void) | null = null;
+  // The transition in flight; metering that arrives meanwhile is ignored
+  private pending: Promise<void> | null = null;
+  private listeners = new Set<ArmedListener>();
+
+  subscribe(listener: ArmedListener) {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: ArmedListener) {
+    this.listeners.delete(listener);
+  }
+
+  isArmed() {
+    return this.armed;
+  }
+
+  // Start listening for voice
+  async arm() {
+    if (this.armed) {
+      return true;
+    }
+
+    await SettingsService.load();
+    this.detector = INITIAL_VOICE_ACTIVITY_STATE;
+    this.stopListening = AudioService.subscribeToRecordingStatus(status => this.handleStatus(status));
+
+    const started = await AudioService.startMonitoring();
+    if (!started) {
+      this.detach();
+      return false;
+    }
+
+    this.setArmed(true);
+    return true;
+  }
+
+  // Stop listening, saving whatever is being recorded. Returns the recording when there was one.
+  async disarm(): Promise<StoppedRecording | null> {
+    if (!this.armed) {
+      return null;
+    }
+
+    this.detach();
+    this.setArmed(false);
+    // Let a start or stop in flight finish, so what it leaves running is what gets stopped
+    await this.pending;
+
+    if (AudioService.getRecorderState() === 'monitoring') {
+      await AudioService.stopMonitoring();
+    } else if (AudioService.getRecorderState() !== 'idle') {
+      return AudioService.stopRecording();
+    }
+    return null;
+  }
+
+  private async handleStatus(status: Audio.RecordingStatus) {
+    if (this.pending || !status.isRecording || status.metering === undefined) {
+      return;
+    }
+
+    const settings = SettingsService.get();
+    const { state, event } = stepVoiceActivity(
+      this.detector,
+      { db: status.metering, time: Date.now() },
+      { thresholdDb: settings.voiceThresholdDb, silenceMillis: settings.silenceTimeout * 1000 }
+    );
+    this.detector = state;
+
+    if (event === 'voiceStart' && AudioService.getRecorderState() === 'monitoring') {
+      await this.transition(() => AudioService.recordFromMonitor(PRE_ROLL_MILLIS));
+    } else if (AudioService.getRecorderState() === 'monitoring' && status.durationMillis >= MONITOR_RESTART_MILLIS) {
+      await this.transition(() => AudioService.restartMonitoring());
+    } else if (event === 'silence' && AudioService.getRecorderState() === 'recording') {
+      await this.transition(async () => {
+        await AudioService.stopRecording();
+        if (settings.silenceAction === 'split') {
+          // Wait for the next burst of voice and record it into a new file
+          this.detector = INITIAL_VOICE_ACTIVITY_STATE;
+          await AudioService.startMonitoring();
+        } else {
+          this.detach();
+          this.setArmed(false);
+        }
+      });
+    }
+  }
+
+  private async transition(action: () => Promise<unknown>) {
+    this.pending = (async () => {
+      try {
+        await action();
+      } catch (error) {
+        console.error('Voice activated recording failed:', error);
+      }
+    })();
+    await this.pending;
+    this.pending = null;
+  }
+
+  private detach() {
+    this.stopListening?.();
+    this.stopListening = null;
+  }
+
+  private setArmed(armed: boolean) {
+    this.armed = armed;
+    this.listeners.forEach(listener => listener(armed));
+  }
+}
+
+export default new VoiceActivatedRecorder();
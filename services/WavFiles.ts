@@ -0,0 +1,87 @@
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+
+import { decodeBase64 } from '@/utils/base64';
+import {
+  encodeWavHeader,
+  parseWavHeader,
+  repairWavHeader,
+  WAV_HEADER_PROBE_SIZE,
+  WavInfo,
+  WavSegment,
+} from '@/utils/wav';
+
+// Bytes read at a time when copying audio from one file to another
+const COPY_CHUNK_SIZE = 1024 * 1024;
+
+// Reads and writes parts of WAV files on disk. Long recordings run to gigabytes, far more than fits
+// in memory as one base64 string, so their audio is only ever handled a chunk at a time.
+class WavFiles {
+  // Parse the header of a WAV file from its first bytes, null when it isn't one
+  async readHeader(uri: string): Promise<WavInfo | null> {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists || info.size === 0) {
+      return null;
+    }
+
+    const header = await this.readBytes(uri, 0, Math.min(info.size, WAV_HEADER_PROBE_SIZE));
+    return parseWavHeader(header, info.size);
+  }
+
+  // Set the RIFF and data chunk sizes of a WAV file to match its length, writing only those two
+  // fields. Returns the repaired header, null when the file isn't a WAV file.
+  async repairHeader(uri: string): Promise<WavInfo | null> {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists || info.size === 0) {
+      return null;
+    }
+
+    const header = await this.readBytes(uri, 0, Math.min(info.size, WAV_HEADER_PROBE_SIZE));
+    const wavInfo = repairWavHeader(header, info.size);
+    if (!wavInfo) {
+      return null;
+    }
+
+    const handle = new File(uri).open();
+    try {
+      for (const offset of [4, wavInfo.dataOffset - 4]) {
+        handle.offset = offset;
+        handle.writeBytes(header.subarray(offset, offset + 4));
+      }
+    } finally {
+      handle.close();
+    }
+    return wavInfo;
+  }
+
+  async readBytes(uri: string, position: number, length: number) {
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position,
+      length,
+    });
+    return decodeBase64(base64);
+  }
+
+  // Write the frames of one segment of a WAV file into a new file of their own
+  async writeSegment(from: string, info: WavInfo, segment: WavSegment, to: string) {
+    const file = new File(to);
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+
+    const handle = file.open();
+    try {
+      handle.writeBytes(encodeWavHeader(info, segment.size));
+      const end = segment.offset + segment.size;
+      for (let position = segment.offset; position < end; position += COPY_CHUNK_SIZE) {
+        handle.writeBytes(await this.readBytes(from, position, Math.min(COPY_CHUNK_SIZE, end - position)));
+      }
+    } finally {
+      handle.close();
+    }
+  }
+}
+
+export default new WavFiles();
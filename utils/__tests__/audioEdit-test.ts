@@ -0,0 +1,225 @@
+import {
+  applyFade,
+  concatAudio,
+  crossfadeOverlap,
+  cutAudio,
+  cutBookmarks,
+  cutLoops,
+  fadeGain,
+  frameCount,
+  frameToMillis,
+  mergeTarget,
+  millisToFrame,
+  offsetBookmarks,
+  sliceAudio,
+  trimBookmarks,
+  trimLoops,
+  waveformFromAudio,
+} from '../audioEdit';
+import { WavAudio } from '../wav';
+
+function audio(channelData: number[][], sampleRate = 1000): WavAudio {
+  return {
+    sampleRate,
+    channelData: channelData.map(samples => Float32Array.from(samples)),
+    sampleFormat: 'pcm',
+    bitsPerSample: 16,
+    info: {},
+    chunks: [],
+  };
+}
+
+describe('millisToFrame', () => {
+  it('rounds to the nearest frame', () => {
+    const ramp = audio([new Array(48000).fill(0)], 48000);
+    expect(millisToFrame(ramp, 10)).toBe(480);
+    expect(millisToFrame(ramp, 10.01)).toBe(480);
+    expect(frameToMillis(ramp, 480)).toBe(10);
+  });
+
+  it('stays within the audio', () => {
+    const short = audio([[0, 0, 0, 0]]);
+    expect(millisToFrame(short, -5)).toBe(0);
+    expect(millisToFrame(short, 100)).toBe(4);
+  });
+});
+
+describe('sliceAudio', () => {
+  it('keeps the same frames of every channel', () => {
+    const stereo = audio([[0, 0.1, 0.2, 0.3], [0, -0.1, -0.2, -0.3]]);
+    const slice = sliceAudio(stereo, 1, 3);
+
+    expect(frameCount(slice)).toBe(2);
+    expect(Array.from(slice.channelData[0])).toEqual([Math.fround(0.1), Math.fround(0.2)]);
+    expect(Array.from(slice.channelData[1])).toEqual([Math.fround(-0.1), Math.fround(-0.2)]);
+    expect(slice.sampleRate).toBe(1000);
+  });
+
+  it('leaves the original untouched', () => {
+    const mono = audio([[0.5, 0.5]]);
+    sliceAudio(mono, 0, 1).channelData[0][0] = 0;
+    expect(mono.channelData[0][0]).toBe(0.5);
+  });
+});
+
+describe('waveformFromAudio', () => {
+  it('takes the loudest channel in each stretch', () => {
+    const stereo = audio([[0, 0, 1, 0], [0, 0, 0, -0.001]]);
+    expect(waveformFromAudio(stereo, 2)).toEqual([0, 1]);
+  });
+
+  it('maps peaks onto the meter scale', () => {
+    // -30 dBFS sits halfway up a meter that starts at -60 dBFS
+    expect(waveformFromAudio(audio([[10 ** (-30 / 20)]]), 1)).toEqual([0.5]);
+  });
+
+  it('never returns more points than frames', () => {
+    expect(waveformFromAudio(audio([[1, 1, 1]]), 10)).toHaveLength(3);
+  });
+});
+
+describe('trimBookmarks', () => {
+  it('drops marks outside the kept span and shifts the rest', () => {
+    const bookmarks = [
+      { id: 'a', positionMillis: 500 },
+      { id: 'b', positionMillis: 1500, label: 'Chorus' },
+      { id: 'c', positionMillis: 4000 },
+    ];
+    expect(trimBookmarks(bookmarks, 1000, 3000)).toEqual([{ id: 'b', positionMillis: 500, label: 'Chorus' }]);
+  });
+});
+
+describe('trimLoops', () => {
+  it('shifts loops and cuts them off at the new end', () => {
+    const loops = [
+      { id: 'a', startMillis: 0, endMillis: 2000 },
+      { id: 'b', startMillis: 1500, endMillis: 2500 },
+      { id: 'c', startMillis: 2500, endMillis: 5000 },
+    ];
+    expect(trimLoops(loops, 1000, 3000)).toEqual([
+      { id: 'b', startMillis: 500, endMillis: 1500 },
+      { id: 'c', startMillis: 1500, endMillis: 2000 },
+    ]);
+  });
+});
+
+describe('offsetBookmarks', () => {
+  it('moves marks along by the offset', () => {
+    expect(offsetBookmarks([{ id: 'a', positionMillis: 250 }], 1000)).toEqual([{ id: 'a', positionMillis: 1250 }]);
+  });
+});
+
+describe('concatAudio', () => {
+  it('joins parts in order', () => {
+    const joined = concatAudio([audio([[0.1, 0.2]]), audio([[0.3]])]);
+    expect(Array.from(joined.channelData[0])).toEqual([0.1, 0.2, 0.3].map(Math.fround));
+  });
+
+  it('converts parts to the rate of the first and the most channels', () => {
+    const ones = new Array(200).fill(1);
+    const joined = concatAudio([audio([[0, 0]], 1000), audio([ones, ones], 2000)]);
+    expect(joined.sampleRate).toBe(1000);
+    expect(joined.channelData).toHaveLength(2);
+    expect(frameCount(joined)).toBe(102);
+    expect(Array.from(joined.channelData[0].subarray(0, 2))).toEqual([0, 0]);
+    // Away from the edges the resampled part keeps its level
+    expect(joined.channelData[1][52]).toBeCloseTo(1, 3);
+  });
+
+  it('picks the same target as mergeTarget', () => {
+    expect(mergeTarget([{ sampleRate: 48000, channels: 1 }, { sampleRate: 44100, channels: 2 }])).toEqual({
+      sampleRate: 48000,
+      channels: 2,
+    });
+  });
+});
+
+describe('concatAudio with a crossfade', () => {
+  it('overlaps the parts and keeps a constant level through the join', () => {
+    const joined = concatAudio([audio([new Array(10).fill(0.5)]), audio([new Array(10).fill(0.5)])], 4);
+    expect(frameCount(joined)).toBe(16);
+    for (const sample of joined.channelData[0]) {
+      expect(sample).toBeCloseTo(0.5, 6);
+    }
+  });
+
+  it('fades from one part into the next', () => {
+    const joined = concatAudio([audio([[1, 1, 1, 1]]), audio([[0, 0, 0, 0]])], 2);
+    expect(Array.from(joined.channelData[0]).map(sample => Math.round(sample * 100) / 100)).toEqual([1, 1, 0.85, 0.15, 0, 0]);
+  });
+
+  it('never overlaps a part by more than half its length', () => {
+    expect(crossfadeOverlap(10, 3, 5)).toBe(1);
+    expect(crossfadeOverlap(100, 100, 5)).toBe(5);
+  });
+});
+
+describe('fadeGain', () => {
+  it('runs from silence to full level on every curve', () => {
+    for (const curve of ['linear', 'logarithmic', 'sCurve'] as const) {
+      expect(fadeGain(curve, 0)).toBe(0);
+      expect(fadeGain(curve, 1)).toBeCloseTo(1, 6);
+    }
+  });
+
+  it('shapes the middle of the fade', () => {
+    expect(fadeGain('linear', 0.5)).toBe(0.5);
+    // Half way up from -60 dB
+    expect(fadeGain('logarithmic', 0.5)).toBeCloseTo(10 ** (-30 / 20), 6);
+    expect(fadeGain('sCurve', 0.25)).toBeCloseTo(0.146, 3);
+  });
+});
+
+describe('applyFade', () => {
+  it('ramps the start up', () => {
+    const faded = applyFade(audio([[1, 1, 1, 1, 1, 1]]), 'in', 'linear', 4);
+    expect(Array.from(faded.channelData[0])).toEqual([0, 0.25, 0.5, 0.75, 1, 1]);
+  });
+
+  it('ramps the end down to silence', () => {
+    const faded = applyFade(audio([[1, 1, 1, 1, 1, 1]]), 'out', 'linear', 4);
+    expect(Array.from(faded.channelData[0])).toEqual([1, 1, 0.75, 0.5, 0.25, 0]);
+  });
+
+  it('fades the whole recording when it is shorter than the fade', () => {
+    const faded = applyFade(audio([[1, 1]]), 'in', 'linear', 1000);
+    expect(Array.from(faded.channelData[0])).toEqual([0, 0.5]);
+  });
+});
+
+describe('cutAudio', () => {
+  it('closes the gap in every channel', () => {
+    const cut = cutAudio(audio([[1, 2, 3, 4], [5, 6, 7, 8]]), 1, 3);
+    expect(cut.channelData.map(channel => Array.from(channel))).toEqual([[1, 4], [5, 8]]);
+  });
+});
+
+describe('cutBookmarks', () => {
+  it('drops marks in the removed span and moves later ones up', () => {
+    const bookmarks = [
+      { id: 'a', positionMillis: 500 },
+      { id: 'b', positionMillis: 1500 },
+      { id: 'c', positionMillis: 2500 },
+    ];
+    expect(cutBookmarks(bookmarks, 1000, 2000)).toEqual([
+      { id: 'a', positionMillis: 500 },
+      { id: 'c', positionMillis: 1500 },
+    ]);
+  });
+});
+
+describe('cutLoops', () => {
+  it('shortens loops that run into or through the removed span', () => {
+    const loops = [
+      { id: 'a', startMillis: 0, endMillis: 1500 },
+      { id: 'b', startMillis: 500, endMillis: 3000 },
+      { id: 'c', startMillis: 1200, endMillis: 1800 },
+      { id: 'd', startMillis: 2000, endMillis: 2500 },
+    ];
+    expect(cutLoops(loops, 1000, 2000)).toEqual([
+      { id: 'a', startMillis: 0, endMillis: 1000 },
+      { id: 'b', startMillis: 500, endMillis: 2000 },
+      { id: 'd', startMillis: 1000, endMillis: 1500 },
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import type { EditList, RecordingEdit } from '@/services/AudioService';
+
+import {
+  applyEdit,
+  changesTimeline,
+  displayedMarkers,
+  renderEdits,
+  sourceMarkers,
+  updateListMarkers,
+} from '../editList';
+import { WavAudio } from '../wav';
+
+function audio(samples: number[]): WavAudio {
+  return {
+    sampleRate: 1000,
+    channelData: [Float32Array.from(samples)],
+    sampleFormat: 'pcm',
+    bitsPerSample: 16,
+    info: {},
+    chunks: [],
+  };
+}
+
+const ramp = audio([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7].map(Math.fround));
+
+describe('applyEdit', () => {
+  it('keeps only the trimmed span', () => {
+    const trimmed = applyEdit(ramp, { type: 'trim', startMillis: 2, endMillis: 5 });
+    expect(Array.from(trimmed.channelData[0])).toEqual([0.2, 0.3, 0.4].map(Math.fround));
+  });
+
+  it('removes a cut span and closes the gap', () => {
+    const cut = applyEdit(ramp, { type: 'cut', startMillis: 2, endMillis: 6 });
+    expect(Array.from(cut.channelData[0])).toEqual([0, 0.1, 0.6, 0.7].map(Math.fround));
+  });
+
+  it('leaves the source untouched', () => {
+    applyEdit(ramp, { type: 'fade', edge: 'in', curve: 'linear', durationMillis: 8 });
+    expect(ramp.channelData[0][1]).toBe(Math.fround(0.1));
+  });
+});
+
+describe('renderEdits', () => {
+  it('applies edits in order, each to the result of the last', () => {
+    const edits: RecordingEdit[] = [
+      { type: 'trim', startMillis: 1, endMillis: 7 },
+      { type: 'cut', startMillis: 0, endMillis: 2 },
+    ];
+    expect(Array.from(renderEdits(ramp, edits).channelData[0])).toEqual([0.3, 0.4, 0.5, 0.6].map(Math.fround));
+  });
+
+  it('returns the source for an empty list', () => {
+    expect(renderEdits(ramp, [])).toBe(ramp);
+  });
+});
+
+describe('changesTimeline', () => {
+  it('is only true for edits that remove audio', () => {
+    expect(changesTimeline({ type: 'cut', startMillis: 0, endMillis: 1 })).toBe(true);
+    expect(changesTimeline({ type: 'gain', gainDb: 3, ceilingDb: -1 })).toBe(false);
+  });
+});
+
+describe('markers', () => {
+  const trim: RecordingEdit = { type: 'trim', startMillis: 1000, endMillis: 5000 };
+  const cut: RecordingEdit = { type: 'cut', startMillis: 1000, endMillis: 2000 };
+  const source = {
+    bookmarks: [{ id: 'a', positionMillis: 500 }, { id: 'b', positionMillis: 3500 }],
+    loops: [{ id: 'l', startMillis: 1500, endMillis: 6000 }],
+  };
+
+  it('moves source markers through the edits in effect', () => {
+    const list: EditList = { edits: [trim, cut], applied: 2, markers: source };
+    expect(displayedMarkers(list, source)).toEqual({
+      bookmarks: [{ id: 'b', positionMillis: 1500 }],
+      loops: [{ id: 'l', startMillis: 500, endMillis: 3000 }],
+    });
+  });
+
+  it('brings back a bookmark in cut audio once the cut is undone', () => {
+    const list: EditList = { edits: [{ type: 'cut', startMillis: 3000, endMillis: 4000 }], applied: 1, markers: source };
+    expect(displayedMarkers(list, source).bookmarks).toEqual([{ id: 'a', positionMillis: 500 }]);
+    expect(displayedMarkers(list, source, 0)).toEqual(source);
+  });
+
+  it('moves displayed markers back onto the source for lists that kept none', () => {
+    const markers = { bookmarks: [{ id: 'b', positionMillis: 1500 }], loops: [] };
+    expect(sourceMarkers({ edits: [trim, cut], applied: 2 }, markers).bookmarks).toEqual([{ id: 'b', positionMillis: 3500 }]);
+    expect(sourceMarkers({ edits: [trim, cut], applied: 1 }, markers).bookmarks).toEqual([{ id: 'b', positionMillis: 2500 }]);
+  });
+
+  it('keeps a marker placed right at a cut after it', () => {
+    const markers = { bookmarks: [{ id: 'c', positionMillis: 1000 }], loops: [] };
+    expect(sourceMarkers({ edits: [cut], applied: 1 }, markers).bookmarks).toEqual([{ id: 'c', positionMillis: 2000 }]);
+  });
+
+  it('updates the source with markers added, changed or removed on the edited audio', () => {
+    const list: EditList = { edits: [trim, cut], applied: 2, markers: source };
+    const previous = displayedMarkers(list, source);
+    const updated = updateListMarkers(list, previous, {
+      bookmarks: [{ id: 'b', positionMillis: 1500, label: 'Chorus' }, { id: 'c', positionMillis: 2000 }],
+      loops: [],
+    });
+    expect(updated.markers).toEqual({
+      bookmarks: [
+        { id: 'a', positionMillis: 500 },
+        { id: 'b', positionMillis: 3500, label: 'Chorus' },
+        { id: 'c', positionMillis: 4000 },
+      ],
+      loops: [],
+    });
+  });
+
+  it('keeps a clipped loop whole on the source while it is left alone', () => {
+    const list: EditList = { edits: [trim, cut], applied: 2, markers: source };
+    const previous = displayedMarkers(list, source);
+    const updated = updateListMarkers(list, previous, { ...previous, bookmarks: [] });
+    expect(updated.markers?.loops).toEqual(source.loops);
+    expect(updated.markers?.bookmarks).toEqual([{ id: 'a', positionMillis: 500 }]);
+  });
+});
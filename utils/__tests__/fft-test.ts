@@ -0,0 +1,24 @@
+import { fft } from '../fft';
+
+describe('fft', () => {
+  it('finds a cosine in its bin', () => {
+    const n = 16;
+    const real = Float64Array.from({ length: n }, (_, i) => Math.cos((2 * Math.PI * 3 * i) / n));
+    const imag = new Float64Array(n);
+    fft(real, imag);
+
+    const magnitudes = Array.from(real, (value, bin) => Math.round(Math.hypot(value, imag[bin])));
+    expect(magnitudes).toEqual([0, 0, 0, 8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 8, 0, 0]);
+  });
+
+  it('returns the input after a round trip', () => {
+    const input = Float64Array.from({ length: 64 }, (_, i) => Math.sin(i * 0.7) + (i % 5) / 10);
+    const real = input.slice();
+    const imag = new Float64Array(64);
+    fft(real, imag);
+    fft(real, imag, true);
+
+    real.forEach((value, i) => expect(value).toBeCloseTo(input[i], 10));
+    imag.forEach(value => expect(value).toBeCloseTo(0, 10));
+  });
+});
@@ -0,0 +1,268 @@
+import { crc16, crc8, encodeFlac, MAX_FLAC_LEVEL, MIN_FLAC_LEVEL } from '../flac';
+import { quantize, WavAudio } from '../wav';
+
+function audio(channelData: Float32Array[], sampleRate = 16000, bitsPerSample = 16): WavAudio {
+  return { sampleRate, channelData, sampleFormat: 'pcm', bitsPerSample, info: {}, chunks: [] };
+}
+
+// A decaying tone with a little noise, from a fixed seed so every run is the same
+function speechLike(length: number, frequency: number, seed: number) {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Float32Array.from(
+    { length },
+    (_, i) => 0.6 * Math.sin((2 * Math.PI * frequency * i) / 16000) * Math.exp(-i / length) + 0.01 * random()
+  );
+}
+
+// Integer samples as the decoder returns them, with -0 rounded to 0
+function pcm(samples: Float32Array, bitsPerSample: number) {
+  return Array.from(samples, sample => quantize(sample, bitsPerSample) + 0);
+}
+
+// Sample rates of the frame header codes 0 to 11; 0 means the rate is only in STREAMINFO
+const SAMPLE_RATES = [0, 88200, 176400, 192000, 8000, 16000, 22050, 24000, 32000, 44100, 48000, 96000];
+
+class BitReader {
+  position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(count: number) {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+      value = value * 2 + bit;
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(count: number) {
+    const value = this.read(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  readUnary() {
+    let zeros = 0;
+    while (this.read(1) === 0) {
+      zeros++;
+    }
+    return zeros;
+  }
+
+  align() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+// Just enough of a decoder to check what the encoder writes, following the FLAC format spec
+function decodeFlac(bytes: Uint8Array) {
+  const reader = new BitReader(bytes);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC');
+  reader.position = 32;
+
+  let streamInfo = { sampleRate: 0, channels: 0, bitsPerSample: 0, totalSamples: 0 };
+  const comments: string[] = [];
+  let isLast = false;
+  while (!isLast) {
+    isLast = reader.read(1) === 1;
+    const type = reader.read(7);
+    const length = reader.read(24);
+    const start = reader.position / 8;
+    if (type === 0) {
+      reader.read(16 + 16 + 24 + 24);
+      streamInfo = {
+        sampleRate: reader.read(20),
+        channels: reader.read(3) + 1,
+        bitsPerSample: reader.read(5) + 1,
+        totalSamples: reader.read(36),
+      };
+    } else if (type === 4) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + start, length);
+      const text = (offset: number, size: number) =>
+        new TextDecoder().decode(bytes.subarray(start + offset, start + offset + size));
+      let offset = 4 + view.getUint32(0, true);
+      const count = view.getUint32(offset, true);
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        const size = view.getUint32(offset, true);
+        comments.push(text(offset + 4, size));
+        offset += 4 + size;
+      }
+    }
+    reader.position = (start + length) * 8;
+  }
+
+  const channels: number[][] = Array.from({ length: streamInfo.channels }, () => []);
+  while (reader.position / 8 < bytes.length) {
+    const frameStart = reader.position / 8;
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    const sizeCode = reader.read(4);
+    const rateCode = reader.read(4);
+    const assignment = reader.read(4);
+    reader.read(4);
+    // The coded frame number, only its length matters here
+    const first = reader.read(8);
+    let extra = 0;
+    for (let mask = 0x80; first & mask && mask > 1; mask >>= 1) {
+      extra++;
+    }
+    reader.read(8 * Math.max(0, extra - 1));
+    const blockSize =
+      sizeCode === 6 ? reader.read(8) + 1
+        : sizeCode === 7 ? reader.read(16) + 1
+          : sizeCode === 1 ? 192
+            : sizeCode <= 5 ? 576 << (sizeCode - 2)
+              : 256 << (sizeCode - 8);
+    const sampleRate =
+      rateCode === 12 ? reader.read(8) * 1000
+        : rateCode === 13 ? reader.read(16)
+          : rateCode === 14 ? reader.read(16) * 10
+            : SAMPLE_RATES[rateCode] || streamInfo.sampleRate;
+    expect(sampleRate).toBe(streamInfo.sampleRate);
+    expect(reader.read(8)).toBe(crc8(bytes.subarray(frameStart, reader.position / 8 - 1)));
+
+    const decoded = Array.from({ length: assignment < 8 ? assignment + 1 : 2 }, (_, index) => {
+      const isSide = (assignment === 8 || assignment === 10) ? index === 1 : assignment === 9 && index === 0;
+      return decodeSubframe(reader, blockSize, streamInfo.bitsPerSample + (isSide ? 1 : 0));
+    });
+    reader.align();
+    const frameEnd = reader.position / 8;
+    expect(reader.read(16)).toBe(crc16(bytes.subarray(frameStart, frameEnd)));
+
+    let [left, right] = decoded;
+    if (assignment === 8) {
+      right = left.map((sample, i) => sample - decoded[1][i]);
+    } else if (assignment === 9) {
+      left = decoded[0].map((side, i) => side + decoded[1][i]);
+      right = decoded[1];
+    } else if (assignment === 10) {
+      left = decoded[0].map((mid, i) => (mid * 2 + (decoded[1][i] & 1) + decoded[1][i]) >> 1);
+      right = decoded[0].map((mid, i) => (mid * 2 + (decoded[1][i] & 1) - decoded[1][i]) >> 1);
+    }
+    const outputs = assignment < 8 ? decoded : [left, right];
+    outputs.forEach((samples, index) => channels[index].push(...samples));
+  }
+
+  return { streamInfo, comments, channels };
+}
+
+function decodeSubframe(reader: BitReader, blockSize: number, bitsPerSample: number) {
+  reader.read(1);
+  const type = reader.read(6);
+  expect(reader.read(1)).toBe(0);
+
+  if (type === 0) {
+    return new Array(blockSize).fill(reader.readSigned(bitsPerSample));
+  }
+  if (type === 1) {
+    return Array.from({ length: blockSize }, () => reader.readSigned(bitsPerSample));
+  }
+
+  const isLpc = type >= 32;
+  const order = isLpc ? (type & 31) + 1 : type & 7;
+  const samples = Array.from({ length: order }, () => reader.readSigned(bitsPerSample));
+  let coefficients: number[] = [];
+  let shift = 0;
+  if (isLpc) {
+    const precision = reader.read(4) + 1;
+    shift = reader.readSigned(5);
+    coefficients = Array.from({ length: order }, () => reader.readSigned(precision));
+  } else {
+    coefficients = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][order];
+  }
+
+  const method = reader.read(2);
+  const partitionOrder = reader.read(4);
+  const partitions = 1 << partitionOrder;
+  for (let partition = 0; partition < partitions; partition++) {
+    const parameter = reader.read(method === 0 ? 4 : 5);
+    const count = (blockSize >> partitionOrder) - (partition === 0 ? order : 0);
+    for (let i = 0; i < count; i++) {
+      const value = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+      const residual = value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+      const n = samples.length;
+      const prediction = coefficients.reduce((sum, coefficient, j) => sum + coefficient * samples[n - 1 - j], 0);
+      samples.push(residual + Math.floor(prediction / 2 ** shift));
+    }
+  }
+  return samples;
+}
+
+describe('crc', () => {
+  it('matches the check values of the FLAC polynomials', () => {
+    const check = new TextEncoder().encode('123456789');
+    expect(crc8(check)).toBe(0xf4);
+    expect(crc16(check)).toBe(0xfee8);
+  });
+});
+
+describe('encodeFlac', () => {
+  const mono = audio([speechLike(10000, 440, 1)]);
+  const stereo = audio([speechLike(10000, 440, 1), speechLike(10000, 440, 2)]);
+
+  it('round trips without loss at every level', () => {
+    for (let level = MIN_FLAC_LEVEL; level <= MAX_FLAC_LEVEL; level++) {
+      const { streamInfo, channels } = decodeFlac(encodeFlac(stereo, { level, comments: [] }));
+      expect(streamInfo).toEqual({ sampleRate: 16000, channels: 2, bitsPerSample: 16, totalSamples: 10000 });
+      channels.forEach((samples, index) => {
+        expect(samples).toEqual(pcm(stereo.channelData[index], 16));
+      });
+    }
+  });
+
+  it('round trips 8- and 24-bit audio and silence', () => {
+    for (const bitsPerSample of [8, 24]) {
+      const input = audio([speechLike(3000, 200, 3)], 44100, bitsPerSample);
+      const { channels } = decodeFlac(encodeFlac(input, { level: 5, comments: [] }));
+      expect(channels[0]).toEqual(pcm(input.channelData[0], bitsPerSample));
+    }
+
+    const silence = audio([new Float32Array(5000)]);
+    const { channels } = decodeFlac(encodeFlac(silence, { level: 5, comments: [] }));
+    expect(channels[0]).toEqual(new Array(5000).fill(0));
+  });
+
+  it('writes rates without a code of their own into the frame header', () => {
+    // In kHz, in Hz and in tens of Hz
+    for (const sampleRate of [12000, 11025, 99990]) {
+      const input = audio([speechLike(3000, 200, 4)], sampleRate);
+      const { streamInfo, channels } = decodeFlac(encodeFlac(input, { level: 5, comments: [] }));
+      expect(streamInfo.sampleRate).toBe(sampleRate);
+      expect(channels[0]).toEqual(pcm(input.channelData[0], 16));
+    }
+  });
+
+  it('stores float audio as 24-bit', () => {
+    const input = { ...mono, sampleFormat: 'float' as const, bitsPerSample: 32 };
+    const { streamInfo } = decodeFlac(encodeFlac(input, { level: 0, comments: [] }));
+    expect(streamInfo.bitsPerSample).toBe(24);
+  });
+
+  it('compresses better at higher levels', () => {
+    const sizes = [0, 5, 8].map(level => encodeFlac(stereo, { level, comments: [] }).length);
+    expect(sizes[1]).toBeLessThan(sizes[0]);
+    expect(sizes[2]).toBeLessThanOrEqual(sizes[1]);
+    // Well under the 40000 bytes of 16-bit PCM
+    expect(sizes[1]).toBeLessThan(30000);
+  });
+
+  it('writes Vorbis comments, skipping empty ones', () => {
+    const { comments } = decodeFlac(
+      encodeFlac(mono, {
+        level: 5,
+        comments: [
+          ['TITLE', 'Café interview'],
+          ['DATE', '2024-05-01'],
+          ['COMMENT', ''],
+        ],
+      })
+    );
+    expect(comments).toEqual(['TITLE=Café interview', 'DATE=2024-05-01']);
+  });
+});
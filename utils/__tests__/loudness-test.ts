@@ -0,0 +1,98 @@
+import {
+  applyGainWithLimiter,
+  dbToGain,
+  measureIntegratedLoudness,
+  measureLoudness,
+  measurePeak,
+  normalizationGainDb,
+} from '../loudness';
+import { WavAudio } from '../wav';
+
+const SAMPLE_RATE = 48000;
+
+function sine(amplitude: number, seconds: number, frequency = 997) {
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+function audio(channelData: Float32Array[]): WavAudio {
+  return { sampleRate: SAMPLE_RATE, channelData, sampleFormat: 'pcm', bitsPerSample: 16, info: {}, chunks: [] };
+}
+
+function peakOf(result: WavAudio) {
+  return Math.max(...result.channelData.map(channel => channel.reduce((peak, s) => Math.max(peak, Math.abs(s)), 0)));
+}
+
+describe('measurePeak', () => {
+  it('reports the highest sample in dBFS', () => {
+    expect(measurePeak(audio([Float32Array.from([0, -0.5, 0.25])]))).toBeCloseTo(-6.02, 2);
+  });
+
+  it('stores silence without a peak', () => {
+    expect(measureLoudness(audio([new Float32Array(SAMPLE_RATE)])).peakDb).toBeNull();
+  });
+});
+
+describe('measureIntegratedLoudness', () => {
+  // Reference values from EBU Tech 3341: a 1 kHz sine at -20 dBFS in both channels reads -20 LUFS
+  it('matches the stereo sine reference', () => {
+    const tone = sine(dbToGain(-20), 5);
+    expect(measureIntegratedLoudness(audio([tone, tone]))).toBeCloseTo(-20, 1);
+  });
+
+  it('counts a single channel once', () => {
+    expect(measureIntegratedLoudness(audio([sine(dbToGain(-20), 5)]))).toBeCloseTo(-23.01, 1);
+  });
+
+  it('gates out silence', () => {
+    const tone = sine(dbToGain(-20), 5);
+    const withPause = new Float32Array(tone.length * 3);
+    withPause.set(tone);
+    // Only the blocks straddling the end of the tone pull it down a little
+    expect(measureIntegratedLoudness(audio([withPause, withPause]))).toBeCloseTo(-20, 0);
+  });
+
+  it('returns null when nothing passes the gate', () => {
+    expect(measureIntegratedLoudness(audio([new Float32Array(SAMPLE_RATE)]))).toBeNull();
+    expect(measureIntegratedLoudness(audio([sine(0.5, 0.1)]))).toBeNull();
+  });
+});
+
+describe('normalizationGainDb', () => {
+  const measurement = { peakDb: -6, integratedLufs: -30 };
+
+  it('aims at the peak or the integrated loudness', () => {
+    expect(normalizationGainDb(measurement, { mode: 'peak', peakDb: -1 })).toBe(5);
+    expect(normalizationGainDb(measurement, { mode: 'lufs', lufs: -16 })).toBe(14);
+  });
+
+  it('gives up on recordings that could not be measured', () => {
+    expect(normalizationGainDb({ peakDb: null, integratedLufs: null }, { mode: 'peak', peakDb: -1 })).toBeNull();
+  });
+});
+
+describe('applyGainWithLimiter', () => {
+  it('applies plain gain when nothing reaches the ceiling', () => {
+    const result = applyGainWithLimiter(audio([Float32Array.from([0.1, -0.2])]), 6.0206, -1);
+    expect(result.channelData[0][1]).toBeCloseTo(-0.4, 4);
+  });
+
+  it('keeps every sample under the ceiling', () => {
+    const tone = sine(0.5, 1);
+    // A short burst well over the ceiling once the gain is applied
+    tone.fill(0.9, 20000, 20010);
+    const result = applyGainWithLimiter(audio([tone, tone.map(s => -s)]), 12, -1);
+    expect(peakOf(result)).toBeLessThanOrEqual(dbToGain(-1) + 1e-6);
+  });
+
+  it('leaves audio far from a peak untouched', () => {
+    const quiet = new Float32Array(SAMPLE_RATE).fill(0.1);
+    quiet[SAMPLE_RATE - 1] = 1;
+    const result = applyGainWithLimiter(audio([quiet]), 0, -1);
+    expect(result.channelData[0][0]).toBeCloseTo(0.1, 6);
+    expect(result.channelData[0][SAMPLE_RATE - 1]).toBeLessThanOrEqual(dbToGain(-1) + 1e-6);
+  });
+});
@@ -0,0 +1,97 @@
+import { dbToGain } from '../loudness';
+import { cleanUpAudio, highPassFilter, measureNoiseProfile, noiseGate, subtractNoise } from '../noiseReduction';
+import { WavAudio } from '../wav';
+
+const SAMPLE_RATE = 16000;
+
+function audio(...channelData: Float32Array[]): WavAudio {
+  return { sampleRate: SAMPLE_RATE, channelData, sampleFormat: 'pcm', bitsPerSample: 16, info: {}, chunks: [] };
+}
+
+function sine(amplitude: number, frequency: number, frames: number) {
+  return Float32Array.from({ length: frames }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+}
+
+// Repeatable white noise
+function noise(amplitude: number, frames: number) {
+  let seed = 1;
+  return Float32Array.from({ length: frames }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return amplitude * ((seed / 2147483647) * 2 - 1);
+  });
+}
+
+function rms(samples: Float32Array, start = 0, end = samples.length) {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += samples[i] ** 2;
+  }
+  return Math.sqrt(sum / (end - start));
+}
+
+describe('highPassFilter', () => {
+  it('removes rumble and keeps speech frequencies', () => {
+    const rumble = highPassFilter(audio(sine(0.5, 30, SAMPLE_RATE)), 120).channelData[0];
+    const voice = highPassFilter(audio(sine(0.5, 1000, SAMPLE_RATE)), 120).channelData[0];
+    expect(rms(rumble, 4000)).toBeLessThan(0.1 * rms(sine(0.5, 30, SAMPLE_RATE)));
+    expect(rms(voice, 4000)).toBeCloseTo(rms(sine(0.5, 1000, SAMPLE_RATE)), 2);
+  });
+});
+
+describe('subtractNoise', () => {
+  it('passes audio through unchanged when there is no noise', () => {
+    const tone = sine(0.5, 440, 8000);
+    const result = subtractNoise(audio(tone), new Float64Array(1025), 12).channelData[0];
+    result.forEach((sample, i) => expect(sample).toBeCloseTo(tone[i], 5));
+  });
+
+  it('turns noise down, but by no more than the reduction', () => {
+    const hiss = noise(0.1, SAMPLE_RATE);
+    const profile = measureNoiseProfile(audio(hiss), 0, 1000);
+    const result = subtractNoise(audio(hiss), profile!, 12).channelData[0];
+    // Some noise always pokes out over its average, so it doesn't come down the full 12 dB
+    expect(rms(result)).toBeLessThan(rms(hiss) * dbToGain(-8));
+    expect(rms(result)).toBeGreaterThan(rms(hiss) * dbToGain(-13));
+  });
+
+  it('keeps a tone standing well above the noise', () => {
+    const hiss = noise(0.01, SAMPLE_RATE);
+    const tone = sine(0.5, 1000, SAMPLE_RATE);
+    const mixed = tone.map((sample, i) => sample + hiss[i]);
+    const profile = measureNoiseProfile(audio(hiss), 0, 1000);
+    const result = subtractNoise(audio(mixed), profile!, 12).channelData[0];
+    expect(rms(result, 2048, 14000)).toBeCloseTo(rms(tone, 2048, 14000), 2);
+  });
+});
+
+describe('measureNoiseProfile', () => {
+  it('needs at least one whole frame', () => {
+    expect(measureNoiseProfile(audio(noise(0.1, SAMPLE_RATE)), 0, 100)).toBeNull();
+  });
+});
+
+describe('noiseGate', () => {
+  it('turns the quiet stretches down and leaves the loud one alone', () => {
+    const samples = noise(0.001, SAMPLE_RATE);
+    samples.set(sine(0.5, 440, 4000), 6000);
+    const result = noiseGate(audio(samples), -40, 30).channelData[0];
+
+    expect(rms(result, 2000, 5000)).toBeCloseTo(rms(samples, 2000, 5000) * dbToGain(-30), 6);
+    expect(rms(result, 6000, 10000)).toBeCloseTo(rms(samples, 6000, 10000), 3);
+    // Still closing after the hold
+    expect(rms(result, 15000, 16000)).toBeLessThan(rms(samples, 15000, 16000) * dbToGain(-25));
+  });
+});
+
+describe('cleanUpAudio', () => {
+  it('skips the steps that are off', () => {
+    const hiss = audio(noise(0.1, 4000));
+    const options = { highPassHz: null, noiseSample: null, gateThresholdDb: null, reductionDb: 12 };
+    expect(cleanUpAudio(hiss, options)).toBe(hiss);
+  });
+
+  it('gives up on a noise sample that is too short', () => {
+    const options = { highPassHz: 80, noiseSample: { startMillis: 0, endMillis: 50 }, gateThresholdDb: null, reductionDb: 12 };
+    expect(cleanUpAudio(audio(noise(0.1, 4000)), options)).toBeNull();
+  });
+});
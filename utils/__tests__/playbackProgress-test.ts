@@ -0,0 +1,40 @@
+import type { AudioFile } from '@/services/AudioService';
+
+import { listenedFraction, resumePositionMillis } from '../playbackProgress';
+
+function segment(duration: number, positionMillis?: number, listenedMillis = positionMillis ?? 0): AudioFile {
+  return {
+    id: String(duration),
+    uri: 'file:///recording.wav',
+    filename: 'recording.wav',
+    title: 'Recording',
+    duration,
+    size: 0,
+    sampleRate: 48000,
+    channels: 1,
+    createdAt: new Date(0),
+    format: { container: 'wav', codec: 'pcm', mimeType: 'audio/wav', sampleRate: 48000, channels: 1 },
+    playbackProgress: positionMillis === undefined ? undefined : { positionMillis, listenedMillis },
+  };
+}
+
+describe('resumePositionMillis', () => {
+  it('starts from the top when nothing was played', () => {
+    expect(resumePositionMillis([segment(60000)])).toBe(0);
+  });
+
+  it('continues inside the segment where listening stopped', () => {
+    expect(resumePositionMillis([segment(60000, 0, 60000), segment(30000, 12000)])).toBe(72000);
+  });
+
+  it('starts over once the item was played to the end', () => {
+    expect(resumePositionMillis([segment(60000, 59000)])).toBe(0);
+  });
+});
+
+describe('listenedFraction', () => {
+  it('adds up the furthest point reached in every segment', () => {
+    expect(listenedFraction([segment(60000, 0, 60000), segment(40000, 10000, 20000)])).toBe(0.8);
+    expect(listenedFraction([segment(0)])).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { nextQueueIndex, previousQueueIndex, shuffled } from '../playbackQueue';
+
+describe('nextQueueIndex', () => {
+  it('stops at the end unless the queue repeats', () => {
+    expect(nextQueueIndex(0, 3, 'off')).toBe(1);
+    expect(nextQueueIndex(2, 3, 'off')).toBeNull();
+    expect(nextQueueIndex(2, 3, 'all')).toBe(0);
+  });
+
+  it('repeats one item only when it finishes by itself', () => {
+    expect(nextQueueIndex(1, 3, 'one')).toBe(1);
+    expect(nextQueueIndex(1, 3, 'one', true)).toBe(2);
+    expect(nextQueueIndex(2, 3, 'one', true)).toBe(0);
+  });
+});
+
+describe('previousQueueIndex', () => {
+  it('wraps around only when repeating', () => {
+    expect(previousQueueIndex(1, 3, 'off')).toBe(0);
+    expect(previousQueueIndex(0, 3, 'off')).toBeNull();
+    expect(previousQueueIndex(0, 3, 'all')).toBe(2);
+  });
+});
+
+describe('shuffled', () => {
+  it('keeps every item and leaves the input alone', () => {
+    const items = [1, 2, 3, 4, 5];
+    const result = shuffled(items, () => 0);
+
+    expect(result).toEqual([2, 3, 4, 5, 1]);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,80 @@
+import type { AudioFile } from '@/services/AudioService';
+
+import { groupBookmarks, groupByDate, groupRecordings, locateInGroup } from '../recordingGroups';
+
+function recording(id: string, duration: number, changes: Partial<AudioFile> = {}): AudioFile {
+  return {
+    id,
+    uri: `file:///recordings/${id}.wav`,
+    filename: `${id}.wav`,
+    title: `Recording ${id}`,
+    duration,
+    size: 0,
+    sampleRate: 48000,
+    channels: 1,
+    createdAt: new Date(Number(id)),
+    format: { container: 'wav', codec: 'pcm', mimeType: 'audio/wav', sampleRate: 48000, channels: 1 },
+    ...changes,
+  };
+}
+
+describe('groupRecordings', () => {
+  it('collapses the segments of a session in order', () => {
+    const groups = groupRecordings([
+      recording('3', 1000),
+      recording('2', 2000, { title: 'Talk (part 2)', session: { id: 's', index: 1 } }),
+      recording('1', 3000, { title: 'Talk (part 1)', session: { id: 's', index: 0 } }),
+    ]);
+
+    expect(groups.map(group => group.id)).toEqual(['3', 's']);
+    expect(groups[1].title).toBe('Talk');
+    expect(groups[1].duration).toBe(5000);
+    expect(groups[1].segments.map(segment => segment.id)).toEqual(['1', '2']);
+  });
+});
+
+describe('groupBookmarks', () => {
+  const [group] = groupRecordings([
+    recording('1', 3000, {
+      session: { id: 's', index: 0 },
+      bookmarks: [{ id: 'a', positionMillis: 500 }],
+    }),
+    recording('2', 2000, {
+      session: { id: 's', index: 1 },
+      bookmarks: [{ id: 'b', positionMillis: 1000, label: 'Question' }],
+    }),
+  ]);
+
+  it('places bookmarks on the timeline of the whole session', () => {
+    expect(groupBookmarks(group)).toEqual([
+      { id: 'a', label: undefined, recordingId: '1', positionMillis: 500 },
+      { id: 'b', label: 'Question', recordingId: '2', positionMillis: 4000 },
+    ]);
+  });
+
+  it('maps a session position back onto a segment', () => {
+    expect(locateInGroup(group, 2999)).toEqual({ recording: group.segments[0], positionMillis: 2999 });
+    expect(locateInGroup(group, 3000)).toEqual({ recording: group.segments[1], positionMillis: 0 });
+    expect(locateInGroup(group, 9000)).toEqual({ recording: group.segments[1], positionMillis: 2000 });
+  });
+});
+
+describe('groupByDate', () => {
+  it('splits groups into days with friendly titles for recent ones', () => {
+    const now = new Date(2024, 4, 10, 12);
+    const groups = groupRecordings([
+      recording(String(new Date(2024, 4, 10, 9).getTime()), 1000),
+      recording(String(new Date(2024, 4, 10, 1).getTime()), 1000),
+      recording(String(new Date(2024, 4, 9, 23).getTime()), 1000),
+      recording(String(new Date(2024, 4, 1, 8).getTime()), 1000),
+    ]);
+
+    const sections = groupByDate(groups, now);
+    expect(sections.map(section => section.title)).toEqual([
+      'Today',
+      'Yesterday',
+      new Date(2024, 4, 1).toLocaleDateString(),
+    ]);
+    expect(sections.map(section => section.data.length)).toEqual([2, 1, 1]);
+  });
+});
@@ -0,0 +1,125 @@
+import { frameCount } from '../audioEdit';
+import { gainToDb } from '../loudness';
+import {
+  convertAudio,
+  convertAudioInChunks,
+  convertChannels,
+  convertsAnything,
+  resample,
+  resampleInChunks,
+} from '../resample';
+import { WavAudio } from '../wav';
+
+function tone(frequency: number, sampleRate: number, channels = 1, seconds = 1): WavAudio {
+  const samples = Float32Array.from(
+    { length: sampleRate * seconds },
+    (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+  return {
+    sampleRate,
+    channelData: Array.from({ length: channels }, () => samples.slice()),
+    sampleFormat: 'pcm',
+    bitsPerSample: 16,
+    info: {},
+    chunks: [],
+  };
+}
+
+function pcmAudio(channels: number[][]): WavAudio {
+  return {
+    sampleRate: 8000,
+    channelData: channels.map(channel => Float32Array.from(channel)),
+    sampleFormat: 'pcm',
+    bitsPerSample: 16,
+    info: {},
+    chunks: [],
+  };
+}
+
+// RMS level away from the ends, where the filter runs into the edges
+function middleRms(samples: Float32Array) {
+  const middle = samples.subarray(Math.floor(samples.length / 4), Math.floor((samples.length * 3) / 4));
+  return Math.sqrt(middle.reduce((sum, sample) => sum + sample * sample, 0) / middle.length);
+}
+
+describe('convertChannels', () => {
+  it('averages channels down to mono', () => {
+    const mono = convertChannels(pcmAudio([[0.5, 1], [0.5, 0]]), 1);
+    expect(mono.channelData).toHaveLength(1);
+    expect(Array.from(mono.channelData[0])).toEqual([0.5, 0.5]);
+  });
+
+  it('copies mono into every channel', () => {
+    const stereo = convertChannels(pcmAudio([[0.25, -0.25]]), 2);
+    expect(stereo.channelData.map(channel => Array.from(channel))).toEqual([[0.25, -0.25], [0.25, -0.25]]);
+  });
+});
+
+describe('resample', () => {
+  it('keeps the duration', () => {
+    const resampled = resample(tone(100, 8000), 3000);
+    expect(resampled.sampleRate).toBe(3000);
+    expect(frameCount(resampled)).toBe(3000);
+  });
+
+  it('keeps tones in the passband at the same level', () => {
+    const input = tone(500, 8000);
+    const down = resample(input, 4000);
+    const up = resample(input, 12000);
+    expect(gainToDb(middleRms(down.channelData[0]) / middleRms(input.channelData[0]))).toBeCloseTo(0, 1);
+    expect(gainToDb(middleRms(up.channelData[0]) / middleRms(input.channelData[0]))).toBeCloseTo(0, 1);
+  });
+
+  it('filters out tones above the new Nyquist frequency instead of aliasing them', () => {
+    const input = tone(3000, 8000);
+    const down = resample(input, 4000);
+    expect(gainToDb(middleRms(down.channelData[0]) / middleRms(input.channelData[0]))).toBeLessThan(-60);
+  });
+
+  it('leaves audio at the same rate untouched', () => {
+    const input = tone(100, 8000);
+    expect(resample(input, 8000)).toBe(input);
+  });
+});
+
+describe('convertAudio', () => {
+  it('mixes down to mono and resamples', () => {
+    const converted = convertAudio(tone(100, 8000, 2), { mono: true, sampleRate: 4000 });
+    expect(converted.channelData).toHaveLength(1);
+    expect(converted.sampleRate).toBe(4000);
+  });
+
+  it('keeps the rate when none is given', () => {
+    const converted = convertAudio(tone(100, 8000, 2), { mono: false, sampleRate: null });
+    expect(converted.channelData).toHaveLength(2);
+    expect(converted.sampleRate).toBe(8000);
+  });
+});
+
+describe('resampleInChunks', () => {
+  it('gives the same samples as resampling in one go', async () => {
+    const input = tone(440, 48000, 2);
+    const chunked = await resampleInChunks(input, 16000);
+    const whole = resample(input, 16000);
+    expect(chunked.sampleRate).toBe(16000);
+    expect(chunked.channelData).toEqual(whole.channelData);
+  });
+
+  it('converts like convertAudio', async () => {
+    const input = tone(100, 8000, 2);
+    const options = { mono: true, sampleRate: 4000 };
+    expect(await convertAudioInChunks(input, options)).toEqual(convertAudio(input, options));
+  });
+});
+
+describe('convertsAnything', () => {
+  it('is false when the audio already matches', () => {
+    expect(convertsAnything({ mono: true, sampleRate: 16000 }, 16000, 1)).toBe(false);
+    expect(convertsAnything({ mono: false, sampleRate: null }, 48000, 2)).toBe(false);
+  });
+
+  it('is true for stereo to mono or a different rate', () => {
+    expect(convertsAnything({ mono: true, sampleRate: null }, 48000, 2)).toBe(true);
+    expect(convertsAnything({ mono: false, sampleRate: 16000 }, 48000, 2)).toBe(true);
+  });
+});
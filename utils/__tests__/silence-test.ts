@@ -0,0 +1,52 @@
+import { detectSilenceTrim, trimsAnything } from '../silence';
+import { WavAudio } from '../wav';
+
+const SAMPLE_RATE = 1000;
+const OPTIONS = { thresholdDb: -40, minSilenceMillis: 500 };
+
+// Silence, then a constant tone, then silence, lengths in milliseconds
+function audio(before: number, sound: number, after: number, channels = 1): WavAudio {
+  const samples = new Float32Array(before + sound + after);
+  samples.fill(0.5, before, before + sound);
+  return {
+    sampleRate: SAMPLE_RATE,
+    channelData: Array.from({ length: channels }, (_, index) => (index === 0 ? samples : new Float32Array(samples.length))),
+    sampleFormat: 'pcm',
+    bitsPerSample: 16,
+    info: {},
+    chunks: [],
+  };
+}
+
+describe('detectSilenceTrim', () => {
+  it('cuts long silences at both ends and keeps some padding', () => {
+    expect(detectSilenceTrim(audio(2000, 1000, 1000), OPTIONS)).toEqual({ startMillis: 1900, endMillis: 3100 });
+  });
+
+  it('leaves short silences alone', () => {
+    expect(detectSilenceTrim(audio(300, 1000, 2000), OPTIONS)).toEqual({ startMillis: 0, endMillis: 1400 });
+  });
+
+  it('ignores noise below the threshold', () => {
+    const noisy = audio(1000, 500, 0);
+    noisy.channelData[0].fill(0.005, 0, 1000);
+    expect(detectSilenceTrim(noisy, OPTIONS)?.startMillis).toBe(900);
+  });
+
+  it('listens to every channel', () => {
+    const stereo = audio(1000, 500, 0, 2);
+    stereo.channelData[1][200] = 0.5;
+    expect(detectSilenceTrim(stereo, OPTIONS)?.startMillis).toBe(0);
+  });
+
+  it('returns null for a silent recording', () => {
+    expect(detectSilenceTrim(audio(1000, 0, 0), OPTIONS)).toBeNull();
+  });
+});
+
+describe('trimsAnything', () => {
+  it('tells whether the trim keeps the whole recording', () => {
+    expect(trimsAnything({ startMillis: 0, endMillis: 1000 }, 1000)).toBe(false);
+    expect(trimsAnything({ startMillis: 0, endMillis: 900 }, 1000)).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import { INITIAL_VOICE_ACTIVITY_STATE, stepVoiceActivity } from '../voiceActivity';
+
+const options = { thresholdDb: -40, silenceMillis: 1000 };
+
+describe('stepVoiceActivity', () => {
+  it('waits until the input reaches the threshold', () => {
+    const quiet = stepVoiceActivity(INITIAL_VOICE_ACTIVITY_STATE, { db: -41, time: 0 }, options);
+    expect(quiet.event).toBeNull();
+    expect(quiet.state.active).toBe(false);
+
+    const loud = stepVoiceActivity(quiet.state, { db: -40, time: 100 }, options);
+    expect(loud.event).toBe('voiceStart');
+    expect(loud.state).toEqual({ active: true, lastVoiceAt: 100 });
+  });
+
+  it('reports silence only after the full timeout', () => {
+    const active = { active: true, lastVoiceAt: 0 };
+
+    expect(stepVoiceActivity(active, { db: -60, time: 999 }, options).event).toBeNull();
+    expect(stepVoiceActivity(active, { db: -60, time: 1000 }, options).event).toBe('silence');
+  });
+
+  it('restarts the silence timer on every loud sample', () => {
+    let state = stepVoiceActivity({ active: true, lastVoiceAt: 0 }, { db: -20, time: 900 }, options).state;
+    const result = stepVoiceActivity(state, { db: -60, time: 1500 }, options);
+    state = result.state;
+
+    expect(result.event).toBeNull();
+    expect(state.active).toBe(true);
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  decodeWav,
+  encodeWav,
+  encodeWavHeader,
+  parseWavHeader,
+  repairWavHeader,
+  WavAudio,
+  wavDurationMillis,
+  wavSegments,
+} from '../wav';
+
+function buildHeader({
+  sampleRate = 44100,
+  channels = 2,
+  bitsPerSample = 16,
+  dataSize = 0,
+  extraChunk = 0,
+}) {
+  const blockAlign = channels * (bitsPerSample / 8);
+  const headerSize = 44 + (extraChunk ? 8 + extraChunk : 0);
+  const bytes = new Uint8Array(headerSize);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) bytes[offset + i] = tag.charCodeAt(i);
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, headerSize - 8 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  let offset = 36;
+  if (extraChunk) {
+    writeTag(offset, 'FLLR');
+    view.setUint32(offset + 4, extraChunk, true);
+    offset += 8 + extraChunk;
+  }
+  writeTag(offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  return bytes;
+}
+
+describe('parseWavHeader', () => {
+  it('reads the format and duration', () => {
+    const info = parseWavHeader(buildHeader({ dataSize: 44100 * 4 }), 44 + 44100 * 4);
+
+    expect(info).toMatchObject({
+      audioFormat: 1,
+      sampleRate: 44100,
+      channels: 2,
+      bitsPerSample: 16,
+      dataOffset: 44,
+      dataSize: 44100 * 4,
+      duration: 1000,
+    });
+  });
+
+  it('skips unknown chunks before the data chunk', () => {
+    const info = parseWavHeader(buildHeader({ channels: 1, sampleRate: 16000, dataSize: 32000, extraChunk: 4044 }), 4096 + 32000);
+
+    expect(info?.dataOffset).toBe(4096);
+    expect(info?.duration).toBe(1000);
+  });
+
+  it('uses the file size when the data size was never finalized', () => {
+    const info = parseWavHeader(buildHeader({ channels: 1, sampleRate: 8000, dataSize: 0 }), 44 + 16000);
+
+    expect(info?.dataSize).toBe(16000);
+    expect(info?.duration).toBe(1000);
+  });
+
+  it('rejects files that are not RIFF/WAVE', () => {
+    expect(parseWavHeader(new Uint8Array([0, 0, 0, 0x20, 0x66, 0x74, 0x79, 0x70, 0, 0, 0, 0]))).toBeNull();
+  });
+});
+
+describe('repairWavHeader', () => {
+  it('writes sizes that match the file length', () => {
+    // The recorder was killed after writing a provisional data size
+    const header = buildHeader({ channels: 1, sampleRate: 8000, dataSize: 4096, extraChunk: 4044 });
+    const fileSize = 4096 + 16001;
+
+    const info = repairWavHeader(header, fileSize);
+    const view = new DataView(header.buffer);
+
+    expect(info?.dataSize).toBe(16000);
+    expect(info?.duration).toBe(1000);
+    expect(view.getUint32(4, true)).toBe(fileSize - 8);
+    expect(view.getUint32(4092, true)).toBe(16000);
+  });
+});
+
+describe('wavSegments', () => {
+  // 10.5 s of 16-bit stereo behind an iOS-style padded header, plus half a frame the recorder left
+  const fileSize = 4096 + 44100 * 4 * 10.5 + 2;
+  const info = parseWavHeader(buildHeader({ extraChunk: 4044 }), fileSize)!;
+
+  it('covers every frame once, with no gap or overlap between segments', () => {
+    const segments = wavSegments(info, 44100 * 4);
+
+    expect(segments.map(segment => segment.endFrame - segment.startFrame)).toEqual([176400, 176400, 110250]);
+    segments.slice(1).forEach((segment, index) => {
+      expect(segment.startFrame).toBe(segments[index].endFrame);
+      expect(segment.offset).toBe(segments[index].offset + segments[index].size);
+    });
+    expect(segments[0].offset).toBe(4096);
+    expect(segments[segments.length - 1].endFrame).toBe(44100 * 10.5);
+    expect(segments.reduce((total, segment) => total + segment.size, 0)).toBe(44100 * 4 * 10.5);
+  });
+
+  it('keeps short audio in one segment', () => {
+    expect(wavSegments(info, 44100 * 60)).toEqual([{ startFrame: 0, endFrame: 463050, offset: 4096, size: 1852200 }]);
+  });
+
+  it('leaves out the frames before the first one', () => {
+    expect(wavSegments(info, Infinity, 44100 * 10)).toEqual([
+      { startFrame: 441000, endFrame: 463050, offset: 4096 + 441000 * 4, size: 22050 * 4 },
+    ]);
+  });
+});
+
+describe('encodeWavHeader', () => {
+  it('writes a header that parses back to the same format and size', () => {
+    const header = encodeWavHeader(
+      { audioFormat: 1, sampleRate: 48000, channels: 2, bitsPerSample: 16, blockAlign: 4 },
+      48000 * 4
+    );
+
+    expect(parseWavHeader(header, 44 + 48000 * 4)).toMatchObject({
+      sampleRate: 48000,
+      channels: 2,
+      dataOffset: 44,
+      dataSize: 48000 * 4,
+      duration: 1000,
+    });
+    expect(new DataView(header.buffer).getUint32(4, true)).toBe(36 + 48000 * 4);
+  });
+});
+
+describe('decodeWav and encodeWav', () => {
+  const samples = [0, 0.5, -0.5, 0.25, -1];
+
+  function audio(changes: Partial<WavAudio> = {}): WavAudio {
+    return {
+      sampleRate: 8000,
+      channelData: [Float32Array.from(samples), Float32Array.from(samples.map(sample => -sample))],
+      sampleFormat: 'pcm',
+      bitsPerSample: 16,
+      info: {},
+      chunks: [],
+      ...changes,
+    };
+  }
+
+  it.each([
+    ['pcm', 8],
+    ['pcm', 16],
+    ['pcm', 24],
+    ['pcm', 32],
+    ['float', 32],
+    ['float', 64],
+  ] as const)('round-trips %s %i-bit samples', (sampleFormat, bitsPerSample) => {
+    const bytes = encodeWav(audio({ sampleFormat, bitsPerSample }));
+    const decoded = decodeWav(bytes);
+
+    expect(decoded).not.toBeNull();
+    expect(decoded!.sampleFormat).toBe(sampleFormat);
+    expect(decoded!.bitsPerSample).toBe(bitsPerSample);
+    expect(decoded!.channelData).toHaveLength(2);
+    // 8-bit only has 256 steps
+    const precision = bitsPerSample === 8 ? 1 : 3;
+    decoded!.channelData[0].forEach((sample, index) => expect(sample).toBeCloseTo(samples[index], precision));
+    decoded!.channelData[1].forEach((sample, index) => expect(sample).toBeCloseTo(-samples[index], precision));
+  });
+
+  it('writes sizes that parseWavHeader agrees with', () => {
+    const bytes = encodeWav(audio());
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(parseWavHeader(bytes)).toMatchObject({ channels: 2, sampleRate: 8000, dataSize: 20, dataOffset: 44 });
+    expect(wavDurationMillis(decodeWav(bytes)!)).toBe(1);
+  });
+
+  it('keeps INFO tags and unknown chunks, padding odd sizes', () => {
+    const chunk = { id: 'bext', data: Uint8Array.from([1, 2, 3]) };
+    const bytes = encodeWav(audio({ info: { INAM: 'Interview', ICMT: 'Take 2' }, chunks: [chunk] }));
+    const decoded = decodeWav(bytes)!;
+
+    expect(bytes.length % 2).toBe(0);
+    expect(decoded.info).toEqual({ INAM: 'Interview', ICMT: 'Take 2' });
+    expect(decoded.chunks).toEqual([chunk]);
+    expect(decoded.channelData[0]).toHaveLength(samples.length);
+  });
+
+  it('clips samples outside -1..1 when writing integers', () => {
+    const decoded = decodeWav(encodeWav(audio({ channelData: [Float32Array.from([2, -2])] })))!;
+
+    expect(decoded.channelData[0][0]).toBeCloseTo(1, 3);
+    expect(decoded.channelData[0][1]).toBe(-1);
+  });
+
+  it('rejects compressed formats', () => {
+    const bytes = encodeWav(audio());
+    // Pretend the data is ADPCM
+    new DataView(bytes.buffer).setUint16(20, 2, true);
+
+    expect(decodeWav(bytes)).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import type { Bookmark, SavedLoop } from '@/services/AudioService';
+import { dbfsToLevel, METER_FLOOR_DB, WAVEFORM_PREVIEW_POINTS } from '@/utils/metering';
+import { convertChannels, resample } from '@/utils/resample';
+import { WavAudio } from '@/utils/wav';
+
+// Shape of a fade: a straight gain ramp, an even ramp in dB, or a slow start and end
+export type FadeCurve = 'linear' | 'logarithmic' | 'sCurve';
+
+// Number of sample frames, i.e. samples per channel
+export function frameCount(audio: WavAudio) {
+  return audio.channelData[0]?.length ?? 0;
+}
+
+// Sample frame nearest to a position, within the audio
+export function millisToFrame(audio: WavAudio, millis: number) {
+  const frame = Math.round((millis * audio.sampleRate) / 1000);
+  return Math.max(0, Math.min(frameCount(audio), frame));
+}
+
+export function frameToMillis(audio: WavAudio, frame: number) {
+  return audio.sampleRate > 0 ? (frame * 1000) / audio.sampleRate : 0;
+}
+
+// Copy of the frames from `startFrame` up to, but not including, `endFrame`
+export function sliceAudio(audio: WavAudio, startFrame: number, endFrame: number): WavAudio {
+  return {
+    ...audio,
+    channelData: audio.channelData.map(channel => channel.slice(startFrame, endFrame)),
+  };
+}
+
+// Copy of the audio without the frames from `startFrame` up to, but not including, `endFrame`
+export function cutAudio(audio: WavAudio, startFrame: number, endFrame: number): WavAudio {
+  return {
+    ...audio,
+    channelData: audio.channelData.map(channel => {
+      const kept = new Float32Array(channel.length - (endFrame - startFrame));
+      kept.set(channel.subarray(0, startFrame));
+      kept.set(channel.subarray(endFrame), startFrame);
+      return kept;
+    }),
+  };
+}
+
+// Peak level of `count` equal stretches of the audio, on the same scale as the recorder's meter
+export function waveformFromAudio(audio: WavAudio, count = WAVEFORM_PREVIEW_POINTS) {
+  const frames = frameCount(audio);
+  const points = Math.min(count, frames);
+  const levels: number[] = [];
+
+  for (let i = 0; i < points; i++) {
+    const start = Math.floor((i * frames) / points);
+    const end = Math.floor(((i + 1) * frames) / points);
+    let peak = 0;
+    for (const channel of audio.channelData) {
+      for (let frame = start; frame < end; frame++) {
+        peak = Math.max(peak, Math.abs(channel[frame]));
+      }
+    }
+    levels.push(Math.round(dbfsToLevel(20 * Math.log10(peak)) * 100) / 100);
+  }
+  return levels;
+}
+
+// Bookmarks inside the kept span, moved so they count from its start
+export function trimBookmarks(bookmarks: Bookmark[], startMillis: number, endMillis: number): Bookmark[] {
+  return bookmarks
+    .filter(bookmark => bookmark.positionMillis >= startMillis && bookmark.positionMillis <= endMillis)
+    .map(bookmark => ({ ...bookmark, positionMillis: Math.round(bookmark.positionMillis - startMillis) }));
+}
+
+// Loops starting inside the kept span, cut short where they run past its end
+export function trimLoops(loops: SavedLoop[], startMillis: number, endMillis: number): SavedLoop[] {
+  return loops
+    .filter(loop => loop.startMillis >= startMillis && loop.startMillis < endMillis)
+    .map(loop => ({
+      ...loop,
+      startMillis: Math.round(loop.startMillis - startMillis),
+      endMillis: Math.round(Math.min(loop.endMillis, endMillis) - startMillis),
+    }));
+}
+
+// Bookmarks outside a removed span, with the later ones moved up to close the gap
+export function cutBookmarks(bookmarks: Bookmark[], startMillis: number, endMillis: number): Bookmark[] {
+  const removed = endMillis - startMillis;
+  return bookmarks
+    .filter(bookmark => bookmark.positionMillis < startMillis || bookmark.positionMillis >= endMillis)
+    .map(bookmark =>
+      bookmark.positionMillis >= endMillis
+        ? { ...bookmark, positionMillis: Math.round(bookmark.positionMillis - removed) }
+        : bookmark
+    );
+}
+
+// Loops starting outside a removed span. A loop running into the span stops where it starts,
+// or loses the removed part if it runs right through it.
+export function cutLoops(loops: SavedLoop[], startMillis: number, endMillis: number): SavedLoop[] {
+  const removed = endMillis - startMillis;
+  const move = (millis: number) => Math.round(millis >= endMillis ? millis - removed : Math.min(millis, startMillis));
+  return loops
+    .filter(loop => loop.startMillis < startMillis || loop.startMillis >= endMillis)
+    .map(loop => ({ ...loop, startMillis: move(loop.startMillis), endMillis: move(loop.endMillis) }));
+}
+
+// Markers of a recording that starts `offsetMillis` into a longer one
+export function offsetBookmarks(bookmarks: Bookmark[], offsetMillis: number): Bookmark[] {
+  return bookmarks.map(bookmark => ({ ...bookmark, positionMillis: Math.round(bookmark.positionMillis + offsetMillis) }));
+}
+
+export function offsetLoops(loops: SavedLoop[], offsetMillis: number): SavedLoop[] {
+  return loops.map(loop => ({
+    ...loop,
+    startMillis: Math.round(loop.startMillis + offsetMillis),
+    endMillis: Math.round(loop.endMillis + offsetMillis),
+  }));
+}
+
+// Sample rate and channel count recordings are converted to before joining:
+// the rate of the first part, and enough channels that nothing is mixed down
+export function mergeTarget(parts: { sampleRate: number; channels: number }[]) {
+  return {
+    sampleRate: parts[0]?.sampleRate ?? 0,
+    channels: Math.max(1, ...parts.map(part => part.channels)),
+  };
+}
+
+// How long two parts overlap when crossfading between them. A part never overlaps by more than
+// half its length, so it can't overlap both of its neighbours at the same time.
+export function crossfadeOverlap(previousLength: number, nextLength: number, crossfadeLength: number) {
+  return Math.max(0, Math.min(crossfadeLength, Math.floor(previousLength / 2), Math.floor(nextLength / 2)));
+}
+
+// Join audio end to end, converting every part to the mergeTarget first. With a crossfade, each
+// part fades in over the end of the one before, along an S-curve so the overall level holds.
+// Tags are taken from the first part; other chunks are dropped as their positions no longer fit.
+export function concatAudio(parts: WavAudio[], crossfadeMillis = 0): WavAudio {
+  const { sampleRate, channels } = mergeTarget(
+    parts.map(part => ({ sampleRate: part.sampleRate, channels: part.channelData.length }))
+  );
+  const converted = parts.map(part => convertChannels(resample(part, sampleRate), channels));
+  const crossfadeFrames = Math.round((crossfadeMillis * sampleRate) / 1000);
+
+  // Frames each part shares with the one before, and where it starts in the joined audio
+  const overlaps = converted.map((part, index) =>
+    index > 0 ? crossfadeOverlap(frameCount(converted[index - 1]), frameCount(part), crossfadeFrames) : 0
+  );
+  const offsets: number[] = [];
+  let total = 0;
+  converted.forEach((part, index) => {
+    offsets.push(total - overlaps[index]);
+    total += frameCount(part) - overlaps[index];
+  });
+
+  const channelData = Array.from({ length: channels }, (_, index) => {
+    const joined = new Float32Array(total);
+    converted.forEach((part, partIndex) => {
+      const samples = part.channelData[index];
+      const offset = offsets[partIndex];
+      const overlap = overlaps[partIndex];
+      for (let i = 0; i < samples.length; i++) {
+        if (i < overlap) {
+          // The previous part is already in place and fades out as this one fades in
+          const t = (i + 0.5) / overlap;
+          joined[offset + i] = joined[offset + i] * fadeGain('sCurve', 1 - t) + samples[i] * fadeGain('sCurve', t);
+        } else {
+          joined[offset + i] = samples[i];
+        }
+      }
+    });
+    return joined;
+  });
+
+  return { ...parts[0], sampleRate, channelData, chunks: [] };
+}
+
+// Gain part-way through a fade-in, from 0 at the start to 1 at the end.
+// The logarithmic curve rises evenly in dB from the meter floor.
+export function fadeGain(curve: FadeCurve, progress: number) {
+  const t = Math.max(0, Math.min(1, progress));
+  switch (curve) {
+    case 'logarithmic':
+      return t === 0 ? 0 : 10 ** ((METER_FLOOR_DB * (1 - t)) / 20);
+    case 'sCurve':
+      return (1 - Math.cos(Math.PI * t)) / 2;
+    case 'linear':
+    default:
+      return t;
+  }
+}
+
+// Fade the start of the audio in, or its end out, over `durationMillis`
+export function applyFade(audio: WavAudio, edge: 'in' | 'out', curve: FadeCurve, durationMillis: number): WavAudio {
+  const frames = frameCount(audio);
+  const fadeFrames = Math.min(frames, Math.round((durationMillis * audio.sampleRate) / 1000));
+  return {
+    ...audio,
+    channelData: audio.channelData.map(channel => {
+      const faded = channel.slice();
+      for (let i = 0; i < fadeFrames; i++) {
+        const gain = fadeGain(curve, i / fadeFrames);
+        if (edge === 'in') {
+          faded[i] *= gain;
+        } else {
+          faded[frames - 1 - i] *= gain;
+        }
+      }
+      return faded;
+    }),
+  };
+}
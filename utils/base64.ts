@@ -0,0 +1,53 @@
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = new Uint8Array(128);
+for (let i = 0; i < ALPHABET.length; i++) {
+  LOOKUP[ALPHABET.charCodeAt(i)] = i;
+}
+
+// Decode a base64 string (as returned by expo-file-system) into raw bytes
+export function decodeBase64(input: string): Uint8Array {
+  const clean = input.replace(/[^A-Za-z0-9+/]/g, '');
+  const length = Math.floor((clean.length * 3) / 4);
+  const bytes = new Uint8Array(length);
+
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = LOOKUP[clean.charCodeAt(i)];
+    const b = LOOKUP[clean.charCodeAt(i + 1)];
+    const c = LOOKUP[clean.charCodeAt(i + 2)];
+    const d = LOOKUP[clean.charCodeAt(i + 3)];
+
+    bytes[byteIndex++] = (a << 2) | (b >> 4);
+    if (byteIndex < length) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+    if (byteIndex < length) bytes[byteIndex++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes;
+}
+
+// Encode raw bytes as a base64 string for expo-file-system writes
+export function encodeBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  let chunk = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    chunk += ALPHABET[a >> 2];
+    chunk += ALPHABET[((a & 3) << 4) | (b >> 4)];
+    chunk += i + 1 < bytes.length ? ALPHABET[((b & 15) << 2) | (c >> 6)] : '=';
+    chunk += i + 2 < bytes.length ? ALPHABET[c & 63] : '=';
+
+    // Flush periodically so large files don't build one enormous concatenation
+    if (chunk.length >= 8192) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+  }
+
+  chunks.push(chunk);
+  return chunks.join('');
+}
@@ -0,0 +1,35 @@
+// Second-order IIR filter coefficients, a0 normalized to 1
+export interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+// Butterworth high-pass, after the Audio EQ Cookbook
+export function highPassBiquad(sampleRate: number, cutoffHz: number, q = Math.SQRT1_2): Biquad {
+  const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * q);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  return {
+    b: [(1 + cos) / 2 / a0, -(1 + cos) / a0, (1 + cos) / 2 / a0],
+    a: [(-2 * cos) / a0, (1 - alpha) / a0],
+  };
+}
+
+export function applyBiquad(samples: Float32Array, { b, a }: Biquad) {
+  const output = new Float32Array(samples.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
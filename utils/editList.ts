@@ -0,0 +1,144 @@
+import type { AudioFile, Bookmark, EditList, RecordingEdit, SavedLoop } from '@/services/AudioService';
+import {
+  applyFade,
+  cutAudio,
+  cutBookmarks,
+  cutLoops,
+  millisToFrame,
+  offsetBookmarks,
+  offsetLoops,
+  sliceAudio,
+  trimBookmarks,
+  trimLoops,
+} from '@/utils/audioEdit';
+import { applyGainWithLimiter } from '@/utils/loudness';
+import { cleanUpAudio } from '@/utils/noiseReduction';
+import { WavAudio } from '@/utils/wav';
+
+export interface RecordingMarkers {
+  bookmarks: Bookmark[];
+  loops: SavedLoop[];
+}
+
+export function markersOf(recording: AudioFile): RecordingMarkers {
+  return { bookmarks: recording.bookmarks ?? [], loops: recording.loops ?? [] };
+}
+
+export function applyEdit(audio: WavAudio, edit: RecordingEdit): WavAudio {
+  switch (edit.type) {
+    case 'trim':
+      return sliceAudio(audio, millisToFrame(audio, edit.startMillis), millisToFrame(audio, edit.endMillis));
+    case 'cut':
+      return cutAudio(audio, millisToFrame(audio, edit.startMillis), millisToFrame(audio, edit.endMillis));
+    case 'gain':
+      return applyGainWithLimiter(audio, edit.gainDb, edit.ceilingDb);
+    case 'fade':
+      return applyFade(audio, edit.edge, edit.curve, edit.durationMillis);
+    case 'filter':
+      // The noise sample was checked when the edit was made
+      return cleanUpAudio(audio, edit.options) ?? audio;
+  }
+}
+
+// Render a list of edits onto the source audio, in order
+export function renderEdits(audio: WavAudio, edits: RecordingEdit[]) {
+  return edits.reduce(applyEdit, audio);
+}
+
+// Whether an edit moves audio around, so positions from before it don't hold after it
+export function changesTimeline(edit: RecordingEdit) {
+  return edit.type === 'trim' || edit.type === 'cut';
+}
+
+// Markers of the audio before an edit, moved to where their audio is after it
+export function editMarkers({ bookmarks, loops }: RecordingMarkers, edit: RecordingEdit): RecordingMarkers {
+  switch (edit.type) {
+    case 'trim':
+      return {
+        bookmarks: trimBookmarks(bookmarks, edit.startMillis, edit.endMillis),
+        loops: trimLoops(loops, edit.startMillis, edit.endMillis),
+      };
+    case 'cut':
+      return {
+        bookmarks: cutBookmarks(bookmarks, edit.startMillis, edit.endMillis),
+        loops: cutLoops(loops, edit.startMillis, edit.endMillis),
+      };
+    default:
+      return { bookmarks, loops };
+  }
+}
+
+// Markers of the audio after an edit, moved back to where their audio was before it
+export function uneditMarkers({ bookmarks, loops }: RecordingMarkers, edit: RecordingEdit): RecordingMarkers {
+  switch (edit.type) {
+    case 'trim':
+      return {
+        bookmarks: offsetBookmarks(bookmarks, edit.startMillis),
+        loops: offsetLoops(loops, edit.startMillis),
+      };
+    case 'cut': {
+      // Anything from the cut on was after the removed span
+      const removed = edit.endMillis - edit.startMillis;
+      const restore = (millis: number, isEnd = false) =>
+        Math.round(millis > edit.startMillis || (!isEnd && millis === edit.startMillis) ? millis + removed : millis);
+      return {
+        bookmarks: bookmarks.map(bookmark => ({ ...bookmark, positionMillis: restore(bookmark.positionMillis) })),
+        loops: loops.map(loop => ({ ...loop, startMillis: restore(loop.startMillis), endMillis: restore(loop.endMillis, true) })),
+      };
+    }
+    default:
+      return { bookmarks, loops };
+  }
+}
+
+// Markers of the source, the ones the edit list keeps or, for lists saved before it kept any, the
+// displayed markers moved back through the edits in effect
+export function sourceMarkers(list: EditList, displayed: RecordingMarkers): RecordingMarkers {
+  return list.markers ?? [...list.edits.slice(0, list.applied)].reverse().reduce(uneditMarkers, displayed);
+}
+
+// Markers to display with the first `applied` edits of a list in effect. Markers inside audio an
+// edit removed are left out, and come back once it is undone.
+export function displayedMarkers(list: EditList, source: RecordingMarkers, applied = list.applied): RecordingMarkers {
+  return list.edits.slice(0, applied).reduce(editMarkers, source);
+}
+
+// The edit list once the displayed markers changed from `previous` to `displayed`. Markers are matched
+// by id: removed ones leave the source, new or moved ones are put back where their audio is in it,
+// and untouched ones are kept as they were, including those hidden by an edit.
+export function updateListMarkers(list: EditList, previous: RecordingMarkers, displayed: RecordingMarkers): EditList {
+  const source = sourceMarkers(list, previous);
+  const shown = displayedMarkers(list, source);
+  const unedited = [...list.edits.slice(0, list.applied)].reverse().reduce(uneditMarkers, displayed);
+  return {
+    ...list,
+    markers: {
+      bookmarks: updateById(source.bookmarks, shown.bookmarks, displayed.bookmarks, unedited.bookmarks)
+        .sort((a, b) => a.positionMillis - b.positionMillis),
+      loops: updateById(source.loops, shown.loops, displayed.loops, unedited.loops)
+        .sort((a, b) => a.startMillis - b.startMillis),
+    },
+  };
+}
+
+// `unedited` holds the `displayed` markers, in the same order, moved back onto the source
+function updateById<T extends { id: string }>(source: T[], shown: T[], displayed: T[], unedited: T[]) {
+  const kept = source.flatMap(marker => {
+    const before = shown.find(other => other.id === marker.id);
+    if (!before) {
+      return [marker];
+    }
+    const index = displayed.findIndex(other => other.id === marker.id);
+    if (index < 0) {
+      return [];
+    }
+    return [sameMarker(before, displayed[index]) ? marker : unedited[index]];
+  });
+  const added = unedited.filter(marker => !source.some(other => other.id === marker.id));
+  return [...kept, ...added];
+}
+
+function sameMarker<T extends object>(a: T, b: T) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof T>;
+  return [...keys].every(key => a[key] === b[key]);
+}
@@ -0,0 +1,693 @@
+import { frameCount } from '@/utils/audioEdit';
+import { quantize, WavAudio } from '@/utils/wav';
+
+// Compression levels as in the reference encoder: 0 is fastest, 8 compresses best
+export const MIN_FLAC_LEVEL = 0;
+export const MAX_FLAC_LEVEL = 8;
+export const DEFAULT_FLAC_LEVEL = 5;
+
+export interface FlacOptions {
+  level: number;
+  // Vorbis comments such as ['TITLE', 'Interview']. A field may appear more than once.
+  comments: [string, string][];
+}
+
+interface LevelSettings {
+  blockSize: number;
+  // How stereo is split into channels: as recorded, the best guess, or whichever comes out smallest
+  stereo: 'independent' | 'estimate' | 'exhaustive';
+  // Zero only tries the fixed predictors
+  maxLpcOrder: number;
+  maxPartitionOrder: number;
+  // Try every LPC order up to the maximum rather than just the maximum
+  searchOrders: boolean;
+}
+
+const LEVELS: LevelSettings[] = [
+  { blockSize: 1152, stereo: 'independent', maxLpcOrder: 0, maxPartitionOrder: 3, searchOrders: false },
+  { blockSize: 1152, stereo: 'estimate', maxLpcOrder: 0, maxPartitionOrder: 3, searchOrders: false },
+  { blockSize: 1152, stereo: 'exhaustive', maxLpcOrder: 0, maxPartitionOrder: 3, searchOrders: false },
+  { blockSize: 4096, stereo: 'independent', maxLpcOrder: 6, maxPartitionOrder: 4, searchOrders: false },
+  { blockSize: 4096, stereo: 'estimate', maxLpcOrder: 8, maxPartitionOrder: 4, searchOrders: false },
+  { blockSize: 4096, stereo: 'exhaustive', maxLpcOrder: 8, maxPartitionOrder: 5, searchOrders: false },
+  { blockSize: 4096, stereo: 'exhaustive', maxLpcOrder: 8, maxPartitionOrder: 6, searchOrders: true },
+  { blockSize: 4096, stereo: 'exhaustive', maxLpcOrder: 12, maxPartitionOrder: 6, searchOrders: false },
+  { blockSize: 4096, stereo: 'exhaustive', maxLpcOrder: 12, maxPartitionOrder: 6, searchOrders: true },
+];
+
+const VENDOR = 'Voice Recorder FLAC encoder';
+
+const CHANNEL_INDEPENDENT = 0;
+const CHANNEL_LEFT_SIDE = 8;
+const CHANNEL_SIDE_RIGHT = 9;
+const CHANNEL_MID_SIDE = 10;
+
+const METADATA_STREAMINFO = 0;
+const METADATA_VORBIS_COMMENT = 4;
+
+// Rice parameters above this need the 5-bit parameter coding
+const MAX_RICE4_PARAMETER = 14;
+const MAX_RICE5_PARAMETER = 30;
+
+// Residuals past this can't be Rice coded safely, the subframe is stored another way
+const MAX_RESIDUAL = 2 ** 30;
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1,
+  176400: 2,
+  192000: 3,
+  8000: 4,
+  16000: 5,
+  22050: 6,
+  24000: 7,
+  32000: 8,
+  44100: 9,
+  48000: 10,
+  96000: 11,
+};
+
+const SAMPLE_SIZE_CODES: Record<number, number> = { 8: 1, 12: 2, 16: 4, 20: 5, 24: 6 };
+
+const CRC8_TABLE = Uint8Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+});
+
+const CRC16_TABLE = Uint16Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+});
+
+export function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = CRC8_TABLE[crc ^ byte];
+  }
+  return crc;
+}
+
+export function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  }
+  return crc;
+}
+
+// Writes values most significant bit first into a growing buffer
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+  private pending = 0;
+  private pendingBits = 0;
+
+  get byteLength() {
+    return this.length;
+  }
+
+  writeBits(value: number, count: number) {
+    if (count > 24) {
+      this.writeBits(Math.floor(value / 2 ** 24), count - 24);
+      this.writeBits(value % 2 ** 24, 24);
+      return;
+    }
+    // At most 7 bits are pending, so this stays within 31 bits
+    this.pending = (this.pending << count) | (value & ((1 << count) - 1));
+    this.pendingBits += count;
+    while (this.pendingBits >= 8) {
+      this.pendingBits -= 8;
+      this.push((this.pending >>> this.pendingBits) & 0xff);
+    }
+    this.pending &= (1 << this.pendingBits) - 1;
+  }
+
+  // Two's complement in `count` bits
+  writeSigned(value: number, count: number) {
+    this.writeBits(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  // `value` zeros and a closing one
+  writeUnary(value: number) {
+    let zeros = value;
+    for (; zeros >= 24; zeros -= 24) {
+      this.writeBits(0, 24);
+    }
+    this.writeBits(1, zeros + 1);
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    for (const byte of bytes) {
+      this.writeBits(byte, 8);
+    }
+  }
+
+  alignToByte() {
+    if (this.pendingBits > 0) {
+      this.writeBits(0, 8 - this.pendingBits);
+    }
+  }
+
+  // Whole bytes written so far, from `start` on
+  bytes(start = 0) {
+    return this.buffer.subarray(start, this.length);
+  }
+
+  private push(byte: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+}
+
+// A way of storing one channel of a block, with its size in bits so candidates can be compared
+interface Subframe {
+  bits: number;
+  write: (writer: BitWriter) => void;
+}
+
+interface RicePlan {
+  bits: number;
+  partitionOrder: number;
+  parameters: number[];
+}
+
+function zigzag(value: number) {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+// Partition order and Rice parameters that code the residual after `order` warm-up samples in the
+// fewest bits, with the size counted from the coding method field on
+function planRice(residual: Float64Array, order: number, maxPartitionOrder: number): RicePlan {
+  const n = residual.length;
+  let best: RicePlan | null = null;
+
+  for (let partitionOrder = maxPartitionOrder; partitionOrder >= 0; partitionOrder--) {
+    const partitions = 1 << partitionOrder;
+    const size = n >> partitionOrder;
+    // Partitions must split the block evenly and the first needs room after the warm-up
+    if (n % partitions !== 0 || size <= order) {
+      continue;
+    }
+
+    let bits = 2 + 4;
+    const parameters: number[] = [];
+    for (let partition = 0; partition < partitions; partition++) {
+      const start = partition === 0 ? order : partition * size;
+      const end = (partition + 1) * size;
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += zigzag(residual[i]);
+      }
+
+      const count = end - start;
+      let parameter = 0;
+      let cost = count + sum;
+      for (let k = 1; k <= MAX_RICE5_PARAMETER; k++) {
+        const next = count * (k + 1) + Math.floor(sum / 2 ** k);
+        if (next >= cost) {
+          break;
+        }
+        parameter = k;
+        cost = next;
+      }
+      parameters.push(parameter);
+      bits += 4 + cost;
+    }
+    if (parameters.some(parameter => parameter > MAX_RICE4_PARAMETER)) {
+      bits += partitions;
+    }
+
+    if (!best || bits < best.bits) {
+      best = { bits, partitionOrder, parameters };
+    }
+  }
+  return best!;
+}
+
+function writeResidual(writer: BitWriter, residual: Float64Array, order: number, plan: RicePlan) {
+  const wide = plan.parameters.some(parameter => parameter > MAX_RICE4_PARAMETER);
+  writer.writeBits(wide ? 1 : 0, 2);
+  writer.writeBits(plan.partitionOrder, 4);
+
+  const size = residual.length >> plan.partitionOrder;
+  plan.parameters.forEach((parameter, partition) => {
+    writer.writeBits(parameter, wide ? 5 : 4);
+    const start = partition === 0 ? order : partition * size;
+    const end = (partition + 1) * size;
+    for (let i = start; i < end; i++) {
+      const value = zigzag(residual[i]);
+      const quotient = Math.floor(value / 2 ** parameter);
+      writer.writeUnary(quotient);
+      if (parameter > 0) {
+        writer.writeBits(value - quotient * 2 ** parameter, parameter);
+      }
+    }
+  });
+}
+
+function writeSubframeHeader(writer: BitWriter, type: number) {
+  // Zero padding bit, the type, and no wasted bits
+  writer.writeBits(type << 1, 8);
+}
+
+function writeWarmUp(writer: BitWriter, samples: Int32Array, order: number, bitsPerSample: number) {
+  for (let i = 0; i < order; i++) {
+    writer.writeSigned(samples[i], bitsPerSample);
+  }
+}
+
+function fixedResidual(samples: Int32Array, order: number) {
+  const s = samples;
+  const residual = new Float64Array(s.length);
+  for (let i = order; i < s.length; i++) {
+    switch (order) {
+      case 0:
+        residual[i] = s[i];
+        break;
+      case 1:
+        residual[i] = s[i] - s[i - 1];
+        break;
+      case 2:
+        residual[i] = s[i] - 2 * s[i - 1] + s[i - 2];
+        break;
+      case 3:
+        residual[i] = s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3];
+        break;
+      default:
+        residual[i] = s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+    }
+  }
+  return residual;
+}
+
+// Tukey window with half of it tapered, which keeps the block edges from skewing the autocorrelation
+function tukeyWindow(n: number) {
+  const taper = 0.5 * (n - 1);
+  return Float64Array.from({ length: n }, (_, i) => {
+    const edge = Math.min(i, n - 1 - i);
+    return edge < taper / 2 ? 0.5 * (1 - Math.cos((2 * Math.PI * edge) / taper)) : 1;
+  });
+}
+
+// Predictor coefficients for every order up to `maxOrder`, by Levinson-Durbin recursion.
+// Coefficient j of an order applies to the sample j + 1 before the predicted one.
+function lpcCoefficients(samples: Int32Array, maxOrder: number): number[][] {
+  const window = tukeyWindow(samples.length);
+  const windowed = Float64Array.from(samples, (sample, i) => sample * window[i]);
+  const autocorrelation = Array.from({ length: maxOrder + 1 }, (_, lag) => {
+    let sum = 0;
+    for (let i = lag; i < windowed.length; i++) {
+      sum += windowed[i] * windowed[i - lag];
+    }
+    return sum;
+  });
+  if (autocorrelation[0] === 0) {
+    return [];
+  }
+
+  const orders: number[][] = [];
+  const a: number[] = [];
+  let error = autocorrelation[0];
+  for (let i = 0; i < maxOrder && error > 0; i++) {
+    let reflection = -autocorrelation[i + 1];
+    for (let j = 0; j < i; j++) {
+      reflection -= a[j] * autocorrelation[i - j];
+    }
+    reflection /= error;
+
+    a[i] = reflection;
+    for (let j = 0; j < i >> 1; j++) {
+      const previous = a[j];
+      a[j] += reflection * a[i - 1 - j];
+      a[i - 1 - j] += reflection * previous;
+    }
+    if (i & 1) {
+      a[i >> 1] += a[i >> 1] * reflection;
+    }
+    error *= 1 - reflection * reflection;
+    orders.push(a.map(value => -value));
+  }
+  return orders;
+}
+
+// Coefficient precision in bits, finer for longer blocks as in the reference encoder
+function coefficientPrecision(blockSize: number) {
+  const limits = [192, 384, 576, 1152, 2304, 4608];
+  const index = limits.findIndex(limit => blockSize <= limit);
+  return index === -1 ? 13 : 7 + index;
+}
+
+// Integer coefficients and the shift that scales them back, carrying the rounding error along.
+// Null when the coefficients are too large to store.
+function quantizeCoefficients(coefficients: number[], precision: number) {
+  const largest = Math.max(...coefficients.map(Math.abs));
+  if (!(largest > 0) || !Number.isFinite(largest)) {
+    return null;
+  }
+
+  const shift = Math.min(15, precision - 1 - (Math.floor(Math.log2(largest)) + 1));
+  if (shift < 0) {
+    return null;
+  }
+
+  const max = 2 ** (precision - 1) - 1;
+  let error = 0;
+  const quantized = coefficients.map(coefficient => {
+    error += coefficient * 2 ** shift;
+    const value = Math.max(-max - 1, Math.min(max, Math.round(error)));
+    error -= value;
+    return value;
+  });
+  return { quantized, shift };
+}
+
+// Null when a residual gets too large to code
+function lpcResidual(samples: Int32Array, quantized: number[], shift: number) {
+  const order = quantized.length;
+  const residual = new Float64Array(samples.length);
+  for (let i = order; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) {
+      sum += quantized[j] * samples[i - 1 - j];
+    }
+    const value = samples[i] - Math.floor(sum / 2 ** shift);
+    if (Math.abs(value) >= MAX_RESIDUAL) {
+      return null;
+    }
+    residual[i] = value;
+  }
+  return residual;
+}
+
+// Smallest way to store one channel of a block
+function encodeSubframe(samples: Int32Array, bitsPerSample: number, settings: LevelSettings): Subframe {
+  const n = samples.length;
+
+  if (samples.every(sample => sample === samples[0])) {
+    return {
+      bits: 8 + bitsPerSample,
+      write: writer => {
+        writeSubframeHeader(writer, 0);
+        writer.writeSigned(samples[0], bitsPerSample);
+      },
+    };
+  }
+
+  let best: Subframe = {
+    bits: 8 + n * bitsPerSample,
+    write: writer => {
+      writeSubframeHeader(writer, 1);
+      writeWarmUp(writer, samples, n, bitsPerSample);
+    },
+  };
+
+  for (let order = 0; order <= 4 && order < n; order++) {
+    const residual = fixedResidual(samples, order);
+    const plan = planRice(residual, order, settings.maxPartitionOrder);
+    const bits = 8 + order * bitsPerSample + plan.bits;
+    if (bits < best.bits) {
+      best = {
+        bits,
+        write: writer => {
+          writeSubframeHeader(writer, 0b001000 | order);
+          writeWarmUp(writer, samples, order, bitsPerSample);
+          writeResidual(writer, residual, order, plan);
+        },
+      };
+    }
+  }
+
+  const maxOrder = Math.min(settings.maxLpcOrder, n - 1);
+  if (maxOrder > 0) {
+    const precision = coefficientPrecision(n);
+    const candidates = lpcCoefficients(samples, maxOrder);
+    const orders = settings.searchOrders ? candidates : candidates.slice(-1);
+
+    for (const coefficients of orders) {
+      const order = coefficients.length;
+      const quantization = quantizeCoefficients(coefficients, precision);
+      const residual = quantization && lpcResidual(samples, quantization.quantized, quantization.shift);
+      if (!quantization || !residual) {
+        continue;
+      }
+
+      const plan = planRice(residual, order, settings.maxPartitionOrder);
+      const bits = 8 + order * bitsPerSample + 4 + 5 + order * precision + plan.bits;
+      if (bits < best.bits) {
+        best = {
+          bits,
+          write: writer => {
+            writeSubframeHeader(writer, 0b100000 | (order - 1));
+            writeWarmUp(writer, samples, order, bitsPerSample);
+            writer.writeBits(precision - 1, 4);
+            writer.writeSigned(quantization.shift, 5);
+            quantization.quantized.forEach(coefficient => writer.writeSigned(coefficient, precision));
+            writeResidual(writer, residual, order, plan);
+          },
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Rough size of a channel, from the second order fixed predictor
+function estimateBits(samples: Int32Array) {
+  let sum = 0;
+  for (let i = 2; i < samples.length; i++) {
+    sum += Math.abs(samples[i] - 2 * samples[i - 1] + samples[i - 2]);
+  }
+  return sum;
+}
+
+// Subframes for a block and how its channels are assigned
+function encodeChannels(channels: Int32Array[], bitsPerSample: number, settings: LevelSettings) {
+  if (channels.length !== 2 || settings.stereo === 'independent') {
+    return {
+      assignment: CHANNEL_INDEPENDENT + channels.length - 1,
+      subframes: channels.map(samples => encodeSubframe(samples, bitsPerSample, settings)),
+    };
+  }
+
+  const [left, right] = channels;
+  const side = Int32Array.from(left, (sample, i) => sample - right[i]);
+  const mid = Int32Array.from(left, (sample, i) => (sample + right[i]) >> 1);
+  const options = [
+    { assignment: CHANNEL_INDEPENDENT + 1, channels: [left, right], sideIndex: -1 },
+    { assignment: CHANNEL_LEFT_SIDE, channels: [left, side], sideIndex: 1 },
+    { assignment: CHANNEL_SIDE_RIGHT, channels: [side, right], sideIndex: 0 },
+    { assignment: CHANNEL_MID_SIDE, channels: [mid, side], sideIndex: 1 },
+  ];
+
+  if (settings.stereo === 'estimate') {
+    const estimates = new Map([left, right, side, mid].map(samples => [samples, estimateBits(samples)]));
+    const cost = (option: (typeof options)[number]) =>
+      option.channels.reduce((total, samples) => total + estimates.get(samples)!, 0);
+    const chosen = options.reduce((best, option) => (cost(option) < cost(best) ? option : best));
+    return {
+      assignment: chosen.assignment,
+      subframes: chosen.channels.map((samples, index) =>
+        encodeSubframe(samples, bitsPerSample + (index === chosen.sideIndex ? 1 : 0), settings)
+      ),
+    };
+  }
+
+  // The side channel needs one more bit than the others
+  const subframes = new Map([
+    [left, encodeSubframe(left, bitsPerSample, settings)],
+    [right, encodeSubframe(right, bitsPerSample, settings)],
+    [side, encodeSubframe(side, bitsPerSample + 1, settings)],
+    [mid, encodeSubframe(mid, bitsPerSample, settings)],
+  ]);
+  const candidates = options.map(option => ({
+    assignment: option.assignment,
+    subframes: option.channels.map(samples => subframes.get(samples)!),
+  }));
+  const bits = (candidate: (typeof candidates)[number]) =>
+    candidate.subframes.reduce((total, subframe) => total + subframe.bits, 0);
+  return candidates.reduce((best, candidate) => (bits(candidate) < bits(best) ? candidate : best));
+}
+
+function sampleRateCode(sampleRate: number) {
+  if (sampleRate in SAMPLE_RATE_CODES) {
+    return SAMPLE_RATE_CODES[sampleRate];
+  }
+  // Other rates follow the header in kHz, in Hz or in tens of Hz
+  if (sampleRate % 1000 === 0 && sampleRate / 1000 < 256) {
+    return 12;
+  }
+  if (sampleRate < 65536) {
+    return 13;
+  }
+  if (sampleRate % 10 === 0 && sampleRate / 10 < 65536) {
+    return 14;
+  }
+  // Only STREAMINFO can hold it
+  return 0;
+}
+
+function blockSizeCode(blockSize: number) {
+  if (blockSize === 192) {
+    return 1;
+  }
+  for (let code = 2; code <= 5; code++) {
+    if (blockSize === 576 << (code - 2)) {
+      return code;
+    }
+  }
+  for (let code = 8; code <= 15; code++) {
+    if (blockSize === 256 << (code - 8)) {
+      return code;
+    }
+  }
+  // The size follows the header in 8 or 16 bits
+  return blockSize <= 256 ? 6 : 7;
+}
+
+// Frame numbers are coded like UTF-8 characters
+function writeCodedNumber(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= 2 ** (6 * continuation + 6 - continuation)) {
+    continuation++;
+  }
+  const prefix = (0xff << (7 - continuation)) & 0xff;
+  writer.writeBits(prefix | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function writeFrame(
+  writer: BitWriter,
+  frameNumber: number,
+  channels: Int32Array[],
+  sampleRate: number,
+  bitsPerSample: number,
+  settings: LevelSettings
+) {
+  const start = writer.byteLength;
+  const blockSize = channels[0].length;
+  const { assignment, subframes } = encodeChannels(channels, bitsPerSample, settings);
+  const sizeCode = blockSizeCode(blockSize);
+  const rateCode = sampleRateCode(sampleRate);
+
+  // Sync code, then fixed-size blocks
+  writer.writeBits(0b11111111111110, 14);
+  writer.writeBits(0, 2);
+  writer.writeBits(sizeCode, 4);
+  writer.writeBits(rateCode, 4);
+  writer.writeBits(assignment, 4);
+  writer.writeBits(SAMPLE_SIZE_CODES[bitsPerSample] ?? 0, 3);
+  writer.writeBits(0, 1);
+  writeCodedNumber(writer, frameNumber);
+  if (sizeCode === 6) {
+    writer.writeBits(blockSize - 1, 8);
+  } else if (sizeCode === 7) {
+    writer.writeBits(blockSize - 1, 16);
+  }
+  if (rateCode === 12) {
+    writer.writeBits(sampleRate / 1000, 8);
+  } else if (rateCode === 13) {
+    writer.writeBits(sampleRate, 16);
+  } else if (rateCode === 14) {
+    writer.writeBits(sampleRate / 10, 16);
+  }
+  writer.writeBits(crc8(writer.bytes(start)), 8);
+
+  subframes.forEach(subframe => subframe.write(writer));
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.bytes(start)), 16);
+  return writer.byteLength - start;
+}
+
+function writeMetadataHeader(writer: BitWriter, type: number, length: number, isLast: boolean) {
+  writer.writeBits(isLast ? 1 : 0, 1);
+  writer.writeBits(type, 7);
+  writer.writeBits(length, 24);
+}
+
+function writeUint32LE(writer: BitWriter, value: number) {
+  for (let i = 0; i < 4; i++) {
+    writer.writeBits(Math.floor(value / 2 ** (8 * i)) & 0xff, 8);
+  }
+}
+
+function encodeVorbisComment(comments: [string, string][]) {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(VENDOR);
+  const fields = comments.filter(([, value]) => value.length > 0).map(([key, value]) => encoder.encode(`${key}=${value}`));
+
+  const writer = new BitWriter();
+  writeUint32LE(writer, vendor.length);
+  writer.writeBytes(vendor);
+  writeUint32LE(writer, fields.length);
+  for (const field of fields) {
+    writeUint32LE(writer, field.length);
+    writer.writeBytes(field);
+  }
+  return writer.bytes();
+}
+
+// Bits per sample in the FLAC file. Integer WAV keeps its depth; 32-bit and float audio is
+// stored as 24-bit, which every decoder supports and is well past what a microphone captures.
+export function flacBitsPerSample(audio: WavAudio) {
+  return audio.sampleFormat === 'pcm' && audio.bitsPerSample <= 24 ? audio.bitsPerSample : 24;
+}
+
+// Encode audio as a FLAC file with a Vorbis comment block for the tags
+export function encodeFlac(audio: WavAudio, options: FlacOptions): Uint8Array {
+  const level = Math.max(MIN_FLAC_LEVEL, Math.min(MAX_FLAC_LEVEL, Math.round(options.level)));
+  const settings = LEVELS[level];
+  const bitsPerSample = flacBitsPerSample(audio);
+  const frames = frameCount(audio);
+  const channelData = audio.channelData.map(channel =>
+    Int32Array.from(channel.subarray(0, frames), sample => quantize(sample, bitsPerSample))
+  );
+
+  const frameWriter = new BitWriter();
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  for (let start = 0, index = 0; start < frames; start += settings.blockSize, index++) {
+    const block = channelData.map(channel => channel.subarray(start, start + settings.blockSize));
+    const size = writeFrame(frameWriter, index, block, audio.sampleRate, bitsPerSample, settings);
+    minFrameSize = Math.min(minFrameSize, size);
+    maxFrameSize = Math.max(maxFrameSize, size);
+  }
+
+  const comment = encodeVorbisComment(options.comments);
+  // Blocks can't be shorter than 16 samples, except the last one
+  const blockSize = Math.max(16, Math.min(settings.blockSize, frames));
+
+  const writer = new BitWriter();
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+  writeMetadataHeader(writer, METADATA_STREAMINFO, 34, false);
+  writer.writeBits(blockSize, 16);
+  writer.writeBits(blockSize, 16);
+  writer.writeBits(maxFrameSize > 0 ? minFrameSize : 0, 24);
+  writer.writeBits(maxFrameSize, 24);
+  writer.writeBits(audio.sampleRate, 20);
+  writer.writeBits(channelData.length - 1, 3);
+  writer.writeBits(bitsPerSample - 1, 5);
+  writer.writeBits(frames, 36);
+  // An all-zero MD5 signature means it wasn't computed
+  writer.writeBytes(new Uint8Array(16));
+
+  writeMetadataHeader(writer, METADATA_VORBIS_COMMENT, comment.length, true);
+  writer.writeBytes(comment);
+  writer.writeBytes(frameWriter.bytes());
+  return writer.bytes().slice();
+}
@@ -0,0 +1,194 @@
+import { frameCount } from '@/utils/audioEdit';
+import { applyBiquad, Biquad } from '@/utils/biquad';
+import { WavAudio } from '@/utils/wav';
+
+// Levels of a recording, as stored with it
+export interface LoudnessMeasurement {
+  // Highest sample level in dBFS, null for silence
+  peakDb: number | null;
+  // Integrated loudness (ITU-R BS.1770), null when the recording is too quiet to measure
+  integratedLufs: number | null;
+}
+
+// Level a recording is normalized to: its highest peak, or its integrated loudness
+export type NormalizationTarget = { mode: 'peak'; peakDb: number } | { mode: 'lufs'; lufs: number };
+
+// BS.1770 blocks are 400 ms long and start every 100 ms
+const BLOCK_MILLIS = 400;
+const BLOCK_STEP_MILLIS = 100;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// The limiter sees this far ahead, so gain comes down smoothly before a peak
+const LIMITER_LOOKAHEAD_MILLIS = 5;
+const LIMITER_RELEASE_MILLIS = 80;
+
+export function gainToDb(gain: number) {
+  return 20 * Math.log10(gain);
+}
+
+export function dbToGain(db: number) {
+  return 10 ** (db / 20);
+}
+
+// The two K-weighting stages: a high shelf for the head's effect, then a high-pass.
+// Derived for any sample rate the same way libebur128 does it.
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = 10 ** (gain / 20);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  return [shelf, highPass];
+}
+
+function blockLoudness(meanSquare: number) {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+// Highest absolute sample in dBFS, -Infinity for silence
+export function measurePeak(audio: WavAudio) {
+  let peak = 0;
+  for (const channel of audio.channelData) {
+    for (let i = 0; i < channel.length; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+  return gainToDb(peak);
+}
+
+// Gated integrated loudness in LUFS. Mono and stereo channels are weighted equally.
+export function measureIntegratedLoudness(audio: WavAudio): number | null {
+  const blockFrames = Math.round((audio.sampleRate * BLOCK_MILLIS) / 1000);
+  const stepFrames = Math.round((audio.sampleRate * BLOCK_STEP_MILLIS) / 1000);
+  const frames = frameCount(audio);
+  if (blockFrames === 0 || frames < blockFrames) {
+    return null;
+  }
+
+  const filters = kWeightingFilters(audio.sampleRate);
+  // Running sums of squares make every block a subtraction away
+  const squareSums = audio.channelData.map(channel => {
+    const weighted = filters.reduce(applyBiquad, channel);
+    const sums = new Float64Array(frames + 1);
+    for (let i = 0; i < frames; i++) {
+      sums[i + 1] = sums[i] + weighted[i] * weighted[i];
+    }
+    return sums;
+  });
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockFrames <= frames; start += stepFrames) {
+    let meanSquare = 0;
+    for (const sums of squareSums) {
+      meanSquare += (sums[start + blockFrames] - sums[start]) / blockFrames;
+    }
+    blocks.push(meanSquare);
+  }
+
+  const aboveAbsolute = blocks.filter(meanSquare => blockLoudness(meanSquare) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) {
+    return null;
+  }
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const relativeGate = blockLoudness(average(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const aboveRelative = aboveAbsolute.filter(meanSquare => blockLoudness(meanSquare) > relativeGate);
+  return blockLoudness(average(aboveRelative));
+}
+
+export function measureLoudness(audio: WavAudio): LoudnessMeasurement {
+  const peakDb = measurePeak(audio);
+  return {
+    peakDb: Number.isFinite(peakDb) ? peakDb : null,
+    integratedLufs: measureIntegratedLoudness(audio),
+  };
+}
+
+// Gain in dB that brings a recording to the target, null when it is too quiet to measure
+export function normalizationGainDb(measurement: LoudnessMeasurement, target: NormalizationTarget) {
+  if (target.mode === 'peak') {
+    return measurement.peakDb === null ? null : target.peakDb - measurement.peakDb;
+  }
+  return measurement.integratedLufs === null ? null : target.lufs - measurement.integratedLufs;
+}
+
+// Minimum of each window of `size` values starting at every index, using a monotonic queue
+function slidingMinimum(values: Float32Array, size: number) {
+  const result = new Float32Array(values.length);
+  const queue = new Int32Array(values.length);
+  let head = 0;
+  let tail = 0;
+  for (let i = values.length - 1; i >= 0; i--) {
+    while (tail > head && values[queue[tail - 1]] >= values[i]) {
+      tail--;
+    }
+    queue[tail++] = i;
+    if (queue[head] >= i + size) {
+      head++;
+    }
+    result[i] = values[queue[head]];
+  }
+  return result;
+}
+
+// Apply gain, then pull down anything that would pass `ceilingDb` with a look-ahead limiter.
+// The gain curve never lets a sample through above the ceiling.
+export function applyGainWithLimiter(audio: WavAudio, gainDb: number, ceilingDb: number): WavAudio {
+  const frames = frameCount(audio);
+  const gain = dbToGain(gainDb);
+  const ceiling = dbToGain(ceilingDb);
+  const lookahead = Math.max(1, Math.round((audio.sampleRate * LIMITER_LOOKAHEAD_MILLIS) / 1000));
+  const release = 1 - Math.exp(-1000 / (audio.sampleRate * LIMITER_RELEASE_MILLIS));
+
+  // Gain each frame needs to stay under the ceiling
+  const required = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let peak = 0;
+    for (const channel of audio.channelData) {
+      peak = Math.max(peak, Math.abs(channel[i] * gain));
+    }
+    required[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  // Every window minimum that covers a frame is at most the gain it needs, so their average is
+  // too, and it ramps down ahead of the frame. Before the start the first window stands in.
+  const minimum = slidingMinimum(required, lookahead);
+  const envelope = new Float32Array(frames);
+  let windowSum = lookahead * (minimum[0] ?? 1);
+  let previous = 1;
+  for (let i = 0; i < frames; i++) {
+    windowSum += minimum[i] - minimum[Math.max(0, i - lookahead)];
+    const smoothed = windowSum / lookahead;
+    // Recover slowly once the peak has passed
+    previous = Math.min(smoothed, previous + (1 - previous) * release);
+    envelope[i] = previous;
+  }
+
+  return {
+    ...audio,
+    channelData: audio.channelData.map(channel => {
+      const output = new Float32Array(frames);
+      for (let i = 0; i < frames; i++) {
+        output[i] = channel[i] * gain * envelope[i];
+      }
+      return output;
+    }),
+  };
+}
@@ -0,0 +1,59 @@
+// Quietest level shown on meters, anything below reads as silence
+export const METER_FLOOR_DB = -60;
+
+// Levels at or above this are treated as clipping
+export const CLIPPING_DB = -0.5;
+
+// Number of points kept in the waveform preview saved with each recording
+export const WAVEFORM_PREVIEW_POINTS = 120;
+
+export interface PeakHold {
+  db: number;
+  heldAt: number;
+}
+
+// Map a dBFS reading onto 0..1 for drawing
+export function dbfsToLevel(db: number, floor = METER_FLOOR_DB) {
+  if (!Number.isFinite(db) || db <= floor) {
+    return 0;
+  }
+  return Math.min(1, (db - floor) / -floor);
+}
+
+const PEAK_HOLD_MILLIS = 1500;
+const PEAK_DECAY_DB_PER_SECOND = 20;
+
+// Where the peak marker sits now: held for a moment, then falling steadily
+export function peakHoldDb(peak: PeakHold, now: number) {
+  const decaying = Math.max(0, now - peak.heldAt - PEAK_HOLD_MILLIS);
+  return peak.db - (decaying / 1000) * PEAK_DECAY_DB_PER_SECOND;
+}
+
+// Start holding a new reading whenever it reaches the falling peak marker
+export function updatePeakHold(peak: PeakHold | null, db: number, now: number): PeakHold {
+  if (!peak || db >= peakHoldDb(peak, now)) {
+    return { db, heldAt: now };
+  }
+  return peak;
+}
+
+// Reduce a series of 0..1 levels to `count` points, keeping the peak of each bucket
+export function downsamplePeaks(levels: number[], count = WAVEFORM_PREVIEW_POINTS) {
+  if (levels.length <= count) {
+    return levels.map(level => Math.round(level * 100) / 100);
+  }
+
+  const peaks: number[] = [];
+  const bucketSize = levels.length / count;
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor(i * bucketSize);
+    const end = Math.max(start + 1, Math.floor((i + 1) * bucketSize));
+    let peak = 0;
+    for (let j = start; j < end; j++) {
+      peak = Math.max(peak, levels[j]);
+    }
+    // Two decimals is plenty for drawing and keeps the manifest small
+    peaks.push(Math.round(peak * 100) / 100);
+  }
+  return peaks;
+}
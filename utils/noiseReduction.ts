@@ -0,0 +1,198 @@
+import { frameCount, millisToFrame } from '@/utils/audioEdit';
+import { applyBiquad, highPassBiquad } from '@/utils/biquad';
+import { fft } from '@/utils/fft';
+import { dbToGain } from '@/utils/loudness';
+import { WavAudio } from '@/utils/wav';
+
+// Steps of the clean-up pipeline, each one left out when null
+export interface CleanupOptions {
+  // Cut-off of the high-pass filter in Hz
+  highPassHz: number | null;
+  // Quiet span of the recording whose noise is subtracted from all of it
+  noiseSample: { startMillis: number; endMillis: number } | null;
+  // The gate closes while every channel stays below this level
+  gateThresholdDb: number | null;
+  // How far noise is pushed down, both by the subtraction and the closed gate
+  reductionDb: number;
+}
+
+// Average power of each frequency bin of the noise
+export type NoiseProfile = Float64Array;
+
+// Analysis frames overlap by half, and square-root Hann windows on both sides add back up to one
+const FFT_SIZE = 2048;
+const HOP_SIZE = FFT_SIZE / 2;
+
+// Subtracting a little more than the measured noise leaves fewer stray tones behind
+const OVERSUBTRACTION = 2;
+// Share of the previous frame's gain carried into the next, which also smooths out stray tones
+const GAIN_SMOOTHING = 0.5;
+
+const GATE_LOOKAHEAD_MILLIS = 5;
+const GATE_HOLD_MILLIS = 50;
+const GATE_ATTACK_MILLIS = 2;
+const GATE_RELEASE_MILLIS = 50;
+
+const WINDOW = Float64Array.from(
+  { length: FFT_SIZE },
+  (_, i) => Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE))
+);
+
+// Windowed spectrum of the frame starting at `start`, zero outside the samples
+function analyze(samples: Float32Array, start: number) {
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const index = start + i;
+    if (index >= 0 && index < samples.length) {
+      real[i] = samples[index] * WINDOW[i];
+    }
+  }
+  fft(real, imag);
+  return { real, imag };
+}
+
+export function highPassFilter(audio: WavAudio, cutoffHz: number): WavAudio {
+  const filter = highPassBiquad(audio.sampleRate, cutoffHz);
+  return { ...audio, channelData: audio.channelData.map(channel => applyBiquad(channel, filter)) };
+}
+
+// Average power spectrum of the frames that fit between two positions, across all channels.
+// Null when the span is shorter than one frame.
+export function measureNoiseProfile(audio: WavAudio, startMillis: number, endMillis: number): NoiseProfile | null {
+  const startFrame = millisToFrame(audio, startMillis);
+  const endFrame = millisToFrame(audio, endMillis);
+  const bins = FFT_SIZE / 2 + 1;
+  const profile = new Float64Array(bins);
+  let count = 0;
+
+  for (const channel of audio.channelData) {
+    for (let start = startFrame; start + FFT_SIZE <= endFrame; start += HOP_SIZE) {
+      const { real, imag } = analyze(channel, start);
+      for (let bin = 0; bin < bins; bin++) {
+        profile[bin] += real[bin] ** 2 + imag[bin] ** 2;
+      }
+      count++;
+    }
+  }
+
+  if (count === 0) {
+    return null;
+  }
+  return profile.map(value => value / count);
+}
+
+// Spectral subtraction: every bin is turned down by how much of it the noise profile explains,
+// but never by more than `reductionDb`
+export function subtractNoise(audio: WavAudio, profile: NoiseProfile, reductionDb: number): WavAudio {
+  const frames = frameCount(audio);
+  const bins = FFT_SIZE / 2 + 1;
+  const floor = dbToGain(-reductionDb);
+
+  return {
+    ...audio,
+    channelData: audio.channelData.map(channel => {
+      const output = new Float64Array(frames);
+      const previousGains = new Float64Array(bins).fill(1);
+
+      // Start half a frame early so every sample is covered by two frames
+      for (let start = -HOP_SIZE; start < frames; start += HOP_SIZE) {
+        const { real, imag } = analyze(channel, start);
+        for (let bin = 0; bin < bins; bin++) {
+          const power = real[bin] ** 2 + imag[bin] ** 2;
+          const remaining = power > 0 ? 1 - (OVERSUBTRACTION * profile[bin]) / power : 0;
+          const gain = Math.max(floor, Math.sqrt(Math.max(0, remaining)));
+          const smoothed = GAIN_SMOOTHING * previousGains[bin] + (1 - GAIN_SMOOTHING) * gain;
+          previousGains[bin] = smoothed;
+
+          real[bin] *= smoothed;
+          imag[bin] *= smoothed;
+          // Keep the spectrum symmetric so the result stays real
+          if (bin > 0 && bin < FFT_SIZE / 2) {
+            real[FFT_SIZE - bin] = real[bin];
+            imag[FFT_SIZE - bin] = -imag[bin];
+          }
+        }
+
+        fft(real, imag, true);
+        for (let i = 0; i < FFT_SIZE; i++) {
+          const index = start + i;
+          if (index >= 0 && index < frames) {
+            output[index] += real[i] * WINDOW[i];
+          }
+        }
+      }
+      return Float32Array.from(output);
+    }),
+  };
+}
+
+// Turn the audio down by `reductionDb` wherever every channel stays below the threshold.
+// The gate opens just before a sound and holds on briefly after it, so words aren't clipped.
+export function noiseGate(audio: WavAudio, thresholdDb: number, reductionDb: number): WavAudio {
+  const frames = frameCount(audio);
+  const threshold = dbToGain(thresholdDb);
+  const floor = dbToGain(-reductionDb);
+  const toFrames = (millis: number) => Math.round((audio.sampleRate * millis) / 1000);
+  const lookahead = toFrames(GATE_LOOKAHEAD_MILLIS);
+  const hold = toFrames(GATE_HOLD_MILLIS);
+  const attack = 1 - Math.exp(-1 / Math.max(1, toFrames(GATE_ATTACK_MILLIS)));
+  const release = 1 - Math.exp(-1 / Math.max(1, toFrames(GATE_RELEASE_MILLIS)));
+
+  const isLoud = (frame: number) => audio.channelData.some(channel => Math.abs(channel[frame]) >= threshold);
+
+  // Distance to the next loud frame, looking back from the end
+  const nextLoud = new Float64Array(frames);
+  let next = Infinity;
+  for (let i = frames - 1; i >= 0; i--) {
+    if (isLoud(i)) {
+      next = i;
+    }
+    nextLoud[i] = next - i;
+  }
+
+  const envelope = new Float32Array(frames);
+  let lastLoud = -Infinity;
+  let gain: number | null = null;
+  for (let i = 0; i < frames; i++) {
+    if (nextLoud[i] === 0) {
+      lastLoud = i;
+    }
+    const open = nextLoud[i] <= lookahead || i - lastLoud <= hold;
+    const target = open ? 1 : floor;
+    // The first frame starts where the gate already is
+    gain = gain === null ? target : gain + (target - gain) * (target > gain ? attack : release);
+    envelope[i] = gain;
+  }
+
+  return {
+    ...audio,
+    channelData: audio.channelData.map(channel => channel.map((sample, i) => sample * envelope[i])),
+  };
+}
+
+// Run the clean-up steps in order: high-pass, noise subtraction, then the gate on what is left.
+// The noise sample is measured after the high-pass, so it matches the audio it is subtracted from.
+// Returns null when the noise sample is too short to measure.
+export function cleanUpAudio(audio: WavAudio, options: CleanupOptions): WavAudio | null {
+  let result = audio;
+  if (options.highPassHz !== null) {
+    result = highPassFilter(result, options.highPassHz);
+  }
+  if (options.noiseSample) {
+    const profile = measureNoiseProfile(result, options.noiseSample.startMillis, options.noiseSample.endMillis);
+    if (!profile) {
+      return null;
+    }
+    result = subtractNoise(result, profile, options.reductionDb);
+  }
+  if (options.gateThresholdDb !== null) {
+    result = noiseGate(result, options.gateThresholdDb, options.reductionDb);
+  }
+  return result;
+}
+
+// Shortest noise sample that can be measured, in milliseconds
+export function minNoiseSampleMillis(sampleRate: number) {
+  return (FFT_SIZE * 1000) / sampleRate;
+}
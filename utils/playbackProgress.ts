@@ -0,0 +1,37 @@
+import type { AudioFile } from '@/services/AudioService';
+
+// How often the position is written to the manifest while playing
+export const PLAYBACK_PROGRESS_SAVE_INTERVAL = 5000;
+
+// Closer than this to the end counts as finished, so playing again starts from the top
+const FINISHED_MARGIN_MILLIS = 3000;
+
+// Where to pick up an item, across all of its segments. Segments that were played to the end
+// have their position cleared, so the last one with a position is where listening stopped.
+export function resumePositionMillis(segments: AudioFile[]) {
+  let offset = 0;
+  let resumeAt = 0;
+  for (const segment of segments) {
+    const position = segment.playbackProgress?.positionMillis ?? 0;
+    if (position > 0) {
+      resumeAt = offset + position;
+    }
+    offset += segment.duration;
+  }
+
+  return resumeAt < offset - FINISHED_MARGIN_MILLIS ? resumeAt : 0;
+}
+
+// Share of the item that has been played at least once, 0..1
+export function listenedFraction(segments: AudioFile[]) {
+  const total = segments.reduce((sum, segment) => sum + segment.duration, 0);
+  if (total === 0) {
+    return 0;
+  }
+
+  const listened = segments.reduce(
+    (sum, segment) => sum + Math.min(segment.duration, segment.playbackProgress?.listenedMillis ?? 0),
+    0
+  );
+  return Math.min(1, listened / total);
+}
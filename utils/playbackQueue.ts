@@ -0,0 +1,31 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+// Index of the item after `index`, or null when the queue is done.
+// Repeat-one only applies when an item finishes by itself; skipping always moves on.
+export function nextQueueIndex(index: number, length: number, repeatMode: RepeatMode, skipped = false) {
+  if (repeatMode === 'one' && !skipped) {
+    return index;
+  }
+  if (index + 1 < length) {
+    return index + 1;
+  }
+  return repeatMode === 'off' || length === 0 ? null : 0;
+}
+
+// Index of the item before `index`, wrapping around only when the whole queue repeats
+export function previousQueueIndex(index: number, length: number, repeatMode: RepeatMode) {
+  if (index > 0) {
+    return index - 1;
+  }
+  return repeatMode === 'off' || length === 0 ? null : length - 1;
+}
+
+// Fisher-Yates shuffle into a new array
+export function shuffled<T>(items: T[], random = Math.random) {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,166 @@
+import type { AudioFile } from '@/services/AudioService';
+
+// One entry in the library: a single recording, or all segments of a split session
+export interface RecordingGroup {
+  id: string;
+  title: string;
+  createdAt: Date;
+  duration: number;
+  size: number;
+  segments: AudioFile[];
+}
+
+const PART_SUFFIX = / \(part \d+\)$/;
+
+// Collapse the segments of each session into one group, keeping the order of `recordings`
+export function groupRecordings(recordings: AudioFile[]): RecordingGroup[] {
+  const groups: RecordingGroup[] = [];
+  const sessions = new Map<string, RecordingGroup>();
+
+  for (const recording of recordings) {
+    const sessionId = recording.session?.id;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (existing) {
+      existing.segments.push(recording);
+      continue;
+    }
+
+    const group: RecordingGroup = {
+      id: sessionId ?? recording.id,
+      title: recording.title,
+      createdAt: recording.createdAt,
+      duration: 0,
+      size: 0,
+      segments: [recording],
+    };
+    groups.push(group);
+    if (sessionId) {
+      sessions.set(sessionId, group);
+    }
+  }
+
+  for (const group of groups) {
+    group.segments.sort((a, b) => (a.session?.index ?? 0) - (b.session?.index ?? 0));
+    group.duration = group.segments.reduce((total, segment) => total + segment.duration, 0);
+    group.size = group.segments.reduce((total, segment) => total + segment.size, 0);
+    if (group.segments.length > 1 || group.segments[0].session) {
+      const first = group.segments[0];
+      group.title = first.title.replace(PART_SUFFIX, '');
+      group.createdAt = first.createdAt;
+    }
+  }
+
+  return groups;
+}
+
+// A bookmark placed on the timeline of a whole group
+export interface GroupBookmark {
+  id: string;
+  label?: string;
+  // The segment the bookmark is stored on
+  recordingId: string;
+  // Position across all segments of the group
+  positionMillis: number;
+}
+
+// Bookmarks of every segment, shifted by the length of the segments before it
+export function groupBookmarks(group: RecordingGroup): GroupBookmark[] {
+  const bookmarks: GroupBookmark[] = [];
+  let offset = 0;
+
+  for (const segment of group.segments) {
+    for (const bookmark of segment.bookmarks ?? []) {
+      bookmarks.push({
+        id: bookmark.id,
+        label: bookmark.label,
+        recordingId: segment.id,
+        positionMillis: offset + bookmark.positionMillis,
+      });
+    }
+    offset += segment.duration;
+  }
+
+  return bookmarks;
+}
+
+// A saved A-B loop placed on the timeline of a whole group
+export interface GroupLoop {
+  id: string;
+  label?: string;
+  recordingId: string;
+  startMillis: number;
+  endMillis: number;
+}
+
+// Saved loops of every segment, shifted like bookmarks, ordered by where they start
+export function groupLoops(group: RecordingGroup): GroupLoop[] {
+  const loops: GroupLoop[] = [];
+  let offset = 0;
+
+  for (const segment of group.segments) {
+    for (const loop of segment.loops ?? []) {
+      loops.push({
+        id: loop.id,
+        label: loop.label,
+        recordingId: segment.id,
+        startMillis: offset + loop.startMillis,
+        endMillis: offset + loop.endMillis,
+      });
+    }
+    offset += segment.duration;
+  }
+
+  return loops.sort((a, b) => a.startMillis - b.startMillis);
+}
+
+// Find the segment playing at a position across the whole group
+export function locateInGroup(group: RecordingGroup, positionMillis: number) {
+  let offset = 0;
+  for (const segment of group.segments) {
+    if (positionMillis < offset + segment.duration) {
+      return { recording: segment, positionMillis: Math.max(0, positionMillis - offset) };
+    }
+    offset += segment.duration;
+  }
+
+  const last = group.segments[group.segments.length - 1];
+  return { recording: last, positionMillis: last.duration };
+}
+
+// Library entries recorded on the same calendar day
+export interface DateSection {
+  key: string;
+  title: string;
+  data: RecordingGroup[];
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Split `groups` into days, keeping their order. Today and yesterday get friendly titles.
+export function groupByDate(groups: RecordingGroup[], now = new Date()): DateSection[] {
+  const today = startOfDay(now).getTime();
+  const yesterday = startOfDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1)).getTime();
+  const sections: DateSection[] = [];
+  const byDay = new Map<number, DateSection>();
+
+  for (const group of groups) {
+    const day = startOfDay(group.createdAt);
+    const time = day.getTime();
+    let section = byDay.get(time);
+    if (!section) {
+      section = {
+        key: String(time),
+        title: time === today ? 'Today' : time === yesterday ? 'Yesterday' : day.toLocaleDateString(),
+        data: [],
+      };
+      byDay.set(time, section);
+      sections.push(section);
+    }
+    section.data.push(group);
+  }
+
+  return sections;
+}
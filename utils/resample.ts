@@ -0,0 +1,170 @@
+import { WavAudio } from '@/utils/wav';
+
+// What a recording is converted to; a null sample rate keeps the one it has
+export interface ConversionOptions {
+  mono: boolean;
+  sampleRate: number | null;
+}
+
+export const CONVERSION_SAMPLE_RATES = [16000, 22050, 48000];
+
+// Change the number of channels. Mono is averaged from all channels; extra channels copy the first.
+export function convertChannels(audio: WavAudio, channels: number): WavAudio {
+  const source = audio.channelData;
+  if (source.length === channels || source.length === 0) {
+    return audio;
+  }
+
+  if (channels === 1) {
+    const mono = new Float32Array(source[0].length);
+    for (const channel of source) {
+      for (let frame = 0; frame < mono.length; frame++) {
+        mono[frame] += channel[frame] / source.length;
+      }
+    }
+    return { ...audio, channelData: [mono] };
+  }
+
+  return {
+    ...audio,
+    channelData: Array.from({ length: channels }, (_, index) => Float32Array.from(source[index] ?? source[0])),
+  };
+}
+
+// Zero crossings of the sinc on each side of a sample, at the lower of the two rates
+const ZERO_CROSSINGS = 16;
+// Passband edge as a share of the lower rate's Nyquist frequency, leaving room for the roll-off
+const CUTOFF = 0.9;
+// Kaiser window shape, about 80 dB of stopband attenuation
+const KAISER_BETA = 8;
+// Kernel values worked out per zero crossing; taps in between are interpolated
+const KERNEL_RESOLUTION = 256;
+
+// Zeroth order modified Bessel function of the first kind, for the Kaiser window
+function besselI0(x: number) {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; term > sum * 1e-12; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+  }
+  return sum;
+}
+
+// Windowed sinc from the centre out to the last zero crossing, plus one guard value
+const KERNEL = Float64Array.from({ length: ZERO_CROSSINGS * KERNEL_RESOLUTION + 2 }, (_, index) => {
+  const t = index / KERNEL_RESOLUTION;
+  if (t >= ZERO_CROSSINGS) {
+    return 0;
+  }
+  const x = Math.PI * CUTOFF * t;
+  const sinc = t === 0 ? 1 : Math.sin(x) / x;
+  const window = besselI0(KAISER_BETA * Math.sqrt(1 - (t / ZERO_CROSSINGS) ** 2)) / besselI0(KAISER_BETA);
+  return sinc * window;
+});
+
+// Kernel at a distance measured in samples of the lower rate
+function kernelAt(distance: number) {
+  const position = Math.abs(distance) * KERNEL_RESOLUTION;
+  const index = Math.floor(position);
+  if (index >= KERNEL.length - 1) {
+    return 0;
+  }
+  return KERNEL[index] + (KERNEL[index + 1] - KERNEL[index]) * (position - index);
+}
+
+// Output frames worked out between each hand-back of the JS thread in resampleInChunks
+const CHUNK_FRAMES = 8192;
+
+interface Resampling {
+  frames: number;
+  length: number;
+  step: number;
+  scale: number;
+  reach: number;
+}
+
+function planResampling(audio: WavAudio, sampleRate: number): Resampling {
+  const frames = audio.channelData[0]?.length ?? 0;
+  // Kernel distances are in samples of the lower rate, so downsampling widens it over the input
+  const scale = Math.min(1, sampleRate / audio.sampleRate);
+  return {
+    frames,
+    length: Math.round((frames * sampleRate) / audio.sampleRate),
+    step: audio.sampleRate / sampleRate,
+    scale,
+    reach: ZERO_CROSSINGS / scale,
+  };
+}
+
+// Fill output frames `from` up to `to` of one channel
+function resampleFrames(channel: Float32Array, resampled: Float32Array, from: number, to: number, plan: Resampling) {
+  const { frames, step, scale, reach } = plan;
+  for (let i = from; i < to; i++) {
+    const center = i * step;
+    let sum = 0;
+    let weights = 0;
+    for (let j = Math.ceil(center - reach); j <= center + reach; j++) {
+      const weight = kernelAt((j - center) * scale);
+      // Samples past either end count as silence, but their weight still keeps the gain steady
+      weights += weight;
+      if (j >= 0 && j < frames) {
+        sum += channel[j] * weight;
+      }
+    }
+    resampled[i] = weights > 0 ? sum / weights : 0;
+  }
+}
+
+// Change the sample rate with a windowed-sinc filter. Its cut-off sits below the Nyquist frequency
+// of the lower rate, so downsampling doesn't fold high frequencies back down as aliases.
+export function resample(audio: WavAudio, sampleRate: number): WavAudio {
+  if (audio.sampleRate === sampleRate || audio.sampleRate === 0) {
+    return audio;
+  }
+
+  const plan = planResampling(audio, sampleRate);
+  const channelData = audio.channelData.map(channel => {
+    const resampled = new Float32Array(plan.length);
+    resampleFrames(channel, resampled, 0, plan.length, plan);
+    return resampled;
+  });
+  return { ...audio, sampleRate, channelData };
+}
+
+// The same as resample, but a chunk at a time with the JS thread handed back in between, so the
+// app stays responsive while minutes of audio are filtered
+export async function resampleInChunks(audio: WavAudio, sampleRate: number): Promise<WavAudio> {
+  if (audio.sampleRate === sampleRate || audio.sampleRate === 0) {
+    return audio;
+  }
+
+  const plan = planResampling(audio, sampleRate);
+  const channelData: Float32Array[] = [];
+  for (const channel of audio.channelData) {
+    const resampled = new Float32Array(plan.length);
+    for (let from = 0; from < plan.length; from += CHUNK_FRAMES) {
+      resampleFrames(channel, resampled, from, Math.min(plan.length, from + CHUNK_FRAMES), plan);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    channelData.push(resampled);
+  }
+  return { ...audio, sampleRate, channelData };
+}
+
+// Whether converting audio of this rate and channel count would change it
+export function convertsAnything(options: ConversionOptions, sampleRate: number, channels: number) {
+  return (options.mono && channels > 1) || (options.sampleRate !== null && options.sampleRate !== sampleRate);
+}
+
+// Mix down to mono first, so there is only one channel left to resample
+export function convertAudio(audio: WavAudio, options: ConversionOptions): WavAudio {
+  const mixed = options.mono ? convertChannels(audio, 1) : audio;
+  return options.sampleRate === null ? mixed : resample(mixed, options.sampleRate);
+}
+
+// convertAudio without holding the JS thread for the whole resampling
+export async function convertAudioInChunks(audio: WavAudio, options: ConversionOptions): Promise<WavAudio> {
+  const mixed = options.mono ? convertChannels(audio, 1) : audio;
+  return options.sampleRate === null ? mixed : resampleInChunks(mixed, options.sampleRate);
+}
@@ -0,0 +1,52 @@
+import { frameCount, frameToMillis } from '@/utils/audioEdit';
+import { WavAudio } from '@/utils/wav';
+
+export interface SilenceTrimOptions {
+  // Samples below this level count as silence
+  thresholdDb: number;
+  // Shorter silences at either end are left alone
+  minSilenceMillis: number;
+}
+
+// Part of a recording to keep once the silence at its ends is cut off
+export interface SilenceTrim {
+  startMillis: number;
+  endMillis: number;
+}
+
+// A little of the silence stays in so the first and last sounds aren't clipped
+export const SILENCE_TRIM_PADDING_MILLIS = 100;
+
+// Find the silence before the first and after the last sample that reaches the threshold.
+// Returns the whole recording when neither end is silent for long enough, null when it is silent throughout.
+export function detectSilenceTrim(audio: WavAudio, options: SilenceTrimOptions): SilenceTrim | null {
+  const frames = frameCount(audio);
+  const threshold = 10 ** (options.thresholdDb / 20);
+  const isSound = (frame: number) => audio.channelData.some(channel => Math.abs(channel[frame]) >= threshold);
+
+  let first = 0;
+  while (first < frames && !isSound(first)) {
+    first++;
+  }
+  if (first === frames) {
+    return null;
+  }
+
+  let last = frames - 1;
+  while (last > first && !isSound(last)) {
+    last--;
+  }
+
+  const padding = Math.round((audio.sampleRate * SILENCE_TRIM_PADDING_MILLIS) / 1000);
+  const leading = frameToMillis(audio, first);
+  const trailing = frameToMillis(audio, frames - last - 1);
+  const startFrame = leading >= options.minSilenceMillis ? Math.max(0, first - padding) : 0;
+  const endFrame = trailing >= options.minSilenceMillis ? Math.min(frames, last + 1 + padding) : frames;
+
+  return { startMillis: frameToMillis(audio, startFrame), endMillis: frameToMillis(audio, endFrame) };
+}
+
+// Whether a trim would remove anything from a recording of this length
+export function trimsAnything(trim: SilenceTrim, durationMillis: number) {
+  return trim.startMillis > 0 || trim.endMillis < durationMillis;
+}
@@ -0,0 +1,48 @@
+export interface LevelSample {
+  // Input level in dBFS
+  db: number;
+  // Milliseconds, any monotonic clock
+  time: number;
+}
+
+export interface VoiceActivityOptions {
+  // Samples at or above this level count as voice
+  thresholdDb: number;
+  // How long the input has to stay below the threshold before it counts as silence
+  silenceMillis: number;
+}
+
+export interface VoiceActivityState {
+  active: boolean;
+  lastVoiceAt: number | null;
+}
+
+export type VoiceActivityEvent = 'voiceStart' | 'silence' | null;
+
+export const INITIAL_VOICE_ACTIVITY_STATE: VoiceActivityState = {
+  active: false,
+  lastVoiceAt: null,
+};
+
+// Advance the detector by one level sample.
+// Emits 'voiceStart' on the first loud sample and 'silence' once the input has stayed quiet for `silenceMillis`.
+export function stepVoiceActivity(
+  state: VoiceActivityState,
+  sample: LevelSample,
+  options: VoiceActivityOptions
+): { state: VoiceActivityState; event: VoiceActivityEvent } {
+  const isVoice = sample.db >= options.thresholdDb;
+
+  if (isVoice) {
+    return {
+      state: { active: true, lastVoiceAt: sample.time },
+      event: state.active ? null : 'voiceStart',
+    };
+  }
+
+  if (state.active && state.lastVoiceAt !== null && sample.time - state.lastVoiceAt >= options.silenceMillis) {
+    return { state: { ...state, active: false }, event: 'silence' };
+  }
+
+  return { state, event: null };
+}
@@ -0,0 +1,419 @@
+export interface WavInfo {
+  audioFormat: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataSize: number;
+  duration: number;
+}
+
+// Number of bytes read from the start of a file when only the header is needed.
+// iOS pads its WAV headers with a ~4 KB FLLR chunk, so this leaves plenty of room.
+export const WAV_HEADER_PROBE_SIZE = 64 * 1024;
+
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readTag(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+// Parse the fmt and data chunk headers of a RIFF/WAVE file.
+// `fileSize` is used to correct a data size that was never finalized by the recorder.
+export function parseWavHeader(bytes: Uint8Array, fileSize = bytes.length): WavInfo | null {
+  if (bytes.length < 12 || readTag(bytes, 0) !== 'RIFF' || readTag(bytes, 8) !== 'WAVE') {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: Omit<WavInfo, 'dataOffset' | 'dataSize' | 'duration'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= bytes.length) {
+      let audioFormat = view.getUint16(body, true);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && size >= 40 && body + 26 <= bytes.length) {
+        // The real format code is the first two bytes of the sub-format GUID
+        audioFormat = view.getUint16(body + 24, true);
+      }
+      format = {
+        audioFormat,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      if (!format || format.blockAlign === 0 || format.sampleRate === 0) {
+        return null;
+      }
+
+      const available = Math.max(0, fileSize - body);
+      const dataSize = size === 0 || size === 0xffffffff || size > available ? available : size;
+      const frames = Math.floor(dataSize / format.blockAlign);
+
+      return {
+        ...format,
+        dataOffset: body,
+        dataSize,
+        duration: Math.round((frames / format.sampleRate) * 1000),
+      };
+    }
+
+    // Chunks are word aligned, odd sizes carry a padding byte
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
+
+// Rewrite the RIFF and data chunk sizes in `header` (the first bytes of a WAV file) so they match a
+// file of `fileSize` bytes. Recorders only write the final sizes when they stop cleanly.
+export function repairWavHeader(header: Uint8Array, fileSize: number): WavInfo | null {
+  const info = parseWavHeader(header, fileSize);
+  if (!info) {
+    return null;
+  }
+
+  // Whatever size was written before the interruption is stale, trust the file length instead.
+  // A trailing partial frame left by the interrupted write is dropped.
+  const available = Math.max(0, fileSize - info.dataOffset);
+  const dataSize = available - (available % info.blockAlign);
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  view.setUint32(4, Math.min(0xffffffff, fileSize - 8), true);
+  view.setUint32(info.dataOffset - 4, dataSize, true);
+
+  const frames = dataSize / info.blockAlign;
+  return { ...info, dataSize, duration: Math.round((frames / info.sampleRate) * 1000) };
+}
+
+// Frames of a WAV file that go into one segment file, and the bytes they take up in it
+export interface WavSegment {
+  startFrame: number;
+  endFrame: number;
+  offset: number;
+  size: number;
+}
+
+// Cut the audio of a WAV file from `firstFrame` on into runs of at most `framesPerSegment` frames.
+// Each run starts on the frame after the last one ended, so together they hold every whole frame
+// from there to the end. Infinity keeps it all in one run.
+export function wavSegments(info: WavInfo, framesPerSegment: number, firstFrame = 0): WavSegment[] {
+  const totalFrames = Math.floor(info.dataSize / info.blockAlign);
+  const length = Math.max(1, Math.floor(framesPerSegment));
+  const segments: WavSegment[] = [];
+  for (let startFrame = Math.max(0, Math.floor(firstFrame)); startFrame < totalFrames; startFrame += length) {
+    const endFrame = Math.min(totalFrames, startFrame + length);
+    segments.push({
+      startFrame,
+      endFrame,
+      offset: info.dataOffset + startFrame * info.blockAlign,
+      size: (endFrame - startFrame) * info.blockAlign,
+    });
+  }
+  return segments;
+}
+
+// The plain 44-byte header of a file holding `dataSize` bytes of audio in the given format
+export function encodeWavHeader(
+  format: Pick<WavInfo, 'audioFormat' | 'sampleRate' | 'channels' | 'bitsPerSample' | 'blockAlign'>,
+  dataSize: number
+): Uint8Array {
+  const bytes = new Uint8Array(44);
+  const view = new DataView(bytes.buffer);
+  writeTag(bytes, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeTag(bytes, 8, 'WAVE');
+  writeTag(bytes, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format.audioFormat, true);
+  view.setUint16(22, format.channels, true);
+  view.setUint32(24, format.sampleRate, true);
+  view.setUint32(28, format.sampleRate * format.blockAlign, true);
+  view.setUint16(32, format.blockAlign, true);
+  view.setUint16(34, format.bitsPerSample, true);
+  writeTag(bytes, 36, 'data');
+  view.setUint32(40, dataSize, true);
+  return bytes;
+}
+
+export const WAVE_FORMAT_PCM = 1;
+export const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+// A chunk we don't interpret, kept so it can be written back out unchanged
+export interface WavChunk {
+  id: string;
+  data: Uint8Array;
+}
+
+// A decoded WAV file. Samples are normalized to -1..1 whatever the bit depth on disk.
+export interface WavAudio {
+  sampleRate: number;
+  // One buffer per channel
+  channelData: Float32Array[];
+  // Sample format on disk, also used when writing the file back
+  sampleFormat: 'pcm' | 'float';
+  bitsPerSample: number;
+  // LIST/INFO tags such as INAM (title) or ICMT (comment)
+  info: Record<string, string>;
+  // Chunks other than fmt, data and LIST/INFO, in file order
+  chunks: WavChunk[];
+}
+
+function writeTag(bytes: Uint8Array, offset: number, tag: string) {
+  for (let i = 0; i < 4; i++) {
+    bytes[offset + i] = tag.charCodeAt(i);
+  }
+}
+
+function isSupportedFormat(sampleFormat: WavAudio['sampleFormat'], bitsPerSample: number) {
+  return sampleFormat === 'pcm' ? [8, 16, 24, 32].includes(bitsPerSample) : [32, 64].includes(bitsPerSample);
+}
+
+// Read one sample at `offset` and scale it to -1..1
+function readSample(view: DataView, offset: number, sampleFormat: WavAudio['sampleFormat'], bitsPerSample: number) {
+  if (sampleFormat === 'float') {
+    return bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+
+  switch (bitsPerSample) {
+    case 8:
+      // 8-bit WAV is the one unsigned format
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+// Scale a -1..1 sample to the integer range, clipping anything outside it
+export function quantize(sample: number, bits: number) {
+  const max = 2 ** (bits - 1);
+  const clipped = Math.max(-1, Math.min(1, Number.isFinite(sample) ? sample : 0));
+  return Math.max(-max, Math.min(max - 1, Math.round(clipped * max)));
+}
+
+function writeSample(
+  view: DataView,
+  offset: number,
+  sample: number,
+  sampleFormat: WavAudio['sampleFormat'],
+  bitsPerSample: number
+) {
+  if (sampleFormat === 'float') {
+    if (bitsPerSample === 64) {
+      view.setFloat64(offset, sample, true);
+    } else {
+      view.setFloat32(offset, sample, true);
+    }
+    return;
+  }
+
+  const value = quantize(sample, bitsPerSample);
+  switch (bitsPerSample) {
+    case 8:
+      view.setUint8(offset, value + 128);
+      break;
+    case 16:
+      view.setInt16(offset, value, true);
+      break;
+    case 24:
+      view.setUint8(offset, value & 0xff);
+      view.setUint8(offset + 1, (value >> 8) & 0xff);
+      view.setInt8(offset + 2, value >> 16);
+      break;
+    default:
+      view.setInt32(offset, value, true);
+  }
+}
+
+// Zero-terminated strings of a LIST/INFO chunk body (after the 'INFO' type)
+function parseInfo(bytes: Uint8Array, start: number, end: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const info: Record<string, string> = {};
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const id = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = bytes.subarray(offset + 8, Math.min(end, offset + 8 + size));
+    const terminator = body.indexOf(0);
+    const text = body.subarray(0, terminator === -1 ? body.length : terminator);
+    // INFO text is nominally ASCII, Latin-1 covers what most tools actually write
+    info[id] = String.fromCharCode(...text);
+    offset += 8 + size + (size % 2);
+  }
+
+  return info;
+}
+
+function encodeInfo(info: Record<string, string>) {
+  const entries = Object.entries(info).filter(([id, text]) => id.length === 4 && text.length > 0);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const sizes = entries.map(([, text]) => text.length + 1);
+  const bodySize = 4 + sizes.reduce((total, size) => total + 8 + size + (size % 2), 0);
+  const bytes = new Uint8Array(bodySize);
+  const view = new DataView(bytes.buffer);
+  writeTag(bytes, 0, 'INFO');
+
+  let offset = 4;
+  entries.forEach(([id, text], index) => {
+    writeTag(bytes, offset, id);
+    view.setUint32(offset + 4, sizes[index], true);
+    for (let i = 0; i < text.length; i++) {
+      // Anything outside Latin-1 can't be stored, replace it rather than garbling the byte
+      const code = text.charCodeAt(i);
+      bytes[offset + 8 + i] = code < 256 ? code : 0x3f;
+    }
+    offset += 8 + sizes[index] + (sizes[index] % 2);
+  });
+
+  return bytes;
+}
+
+// Chunks not carried over: fmt is rebuilt, fact goes stale once samples change and
+// FLLR is the padding iOS adds to align the audio
+const DROPPED_CHUNKS = ['fmt ', 'fact', 'FLLR'];
+
+// Decode a complete WAV file into per-channel sample buffers.
+// Returns null for anything that isn't uncompressed PCM or float audio.
+export function decodeWav(bytes: Uint8Array): WavAudio | null {
+  const header = parseWavHeader(bytes);
+  if (!header || header.channels === 0) {
+    return null;
+  }
+
+  const sampleFormat = header.audioFormat === WAVE_FORMAT_PCM ? 'pcm'
+    : header.audioFormat === WAVE_FORMAT_IEEE_FLOAT ? 'float'
+    : null;
+  const bytesPerSample = header.bitsPerSample / 8;
+  if (!sampleFormat || !isSupportedFormat(sampleFormat, header.bitsPerSample)
+    || header.blockAlign !== bytesPerSample * header.channels) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const info: Record<string, string> = {};
+  const chunks: WavChunk[] = [];
+  let offset = 12;
+
+  // Collect everything around the audio: tags and chunks to carry over when writing
+  while (offset + 8 <= bytes.length) {
+    const id = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'data') {
+      // parseWavHeader already worked out the real data size, which may run to the end of the file
+      offset = body + header.dataSize + (header.dataSize % 2);
+      continue;
+    }
+
+    const end = Math.min(bytes.length, body + size);
+    if (id === 'LIST' && size >= 4 && readTag(bytes, body) === 'INFO') {
+      Object.assign(info, parseInfo(bytes, body + 4, end));
+    } else if (!DROPPED_CHUNKS.includes(id)) {
+      chunks.push({ id, data: bytes.slice(body, end) });
+    }
+    offset = body + size + (size % 2);
+  }
+
+  const frames = Math.floor(header.dataSize / header.blockAlign);
+  const channelData = Array.from({ length: header.channels }, () => new Float32Array(frames));
+  for (let frame = 0; frame < frames; frame++) {
+    const frameOffset = header.dataOffset + frame * header.blockAlign;
+    for (let channel = 0; channel < header.channels; channel++) {
+      channelData[channel][frame] = readSample(
+        view,
+        frameOffset + channel * bytesPerSample,
+        sampleFormat,
+        header.bitsPerSample
+      );
+    }
+  }
+
+  return {
+    sampleRate: header.sampleRate,
+    channelData,
+    sampleFormat,
+    bitsPerSample: header.bitsPerSample,
+    info,
+    chunks,
+  };
+}
+
+// Write a complete WAV file with every size field filled in
+export function encodeWav(audio: WavAudio): Uint8Array {
+  const { sampleRate, channelData, sampleFormat, bitsPerSample } = audio;
+  if (!isSupportedFormat(sampleFormat, bitsPerSample)) {
+    throw new Error(`Unsupported WAV sample format: ${bitsPerSample}-bit ${sampleFormat}`);
+  }
+
+  const channels = channelData.length;
+  const frames = channels > 0 ? Math.min(...channelData.map(samples => samples.length)) : 0;
+  const bytesPerSample = bitsPerSample / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = frames * blockAlign;
+
+  const infoChunk = encodeInfo(audio.info);
+  const chunks = infoChunk ? [...audio.chunks, { id: 'LIST', data: infoChunk }] : audio.chunks;
+  const chunkSize = (size: number) => 8 + size + (size % 2);
+  const fileSize = 12
+    + chunkSize(16)
+    + chunks.reduce((total, chunk) => total + chunkSize(chunk.data.length), 0)
+    + chunkSize(dataSize);
+
+  const bytes = new Uint8Array(fileSize);
+  const view = new DataView(bytes.buffer);
+  writeTag(bytes, 0, 'RIFF');
+  view.setUint32(4, fileSize - 8, true);
+  writeTag(bytes, 8, 'WAVE');
+
+  writeTag(bytes, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, sampleFormat === 'float' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  // Other chunks go before the audio, where readers that stop at 'data' still see them
+  let offset = 36;
+  for (const chunk of chunks) {
+    writeTag(bytes, offset, chunk.id);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    bytes.set(chunk.data, offset + 8);
+    offset += chunkSize(chunk.data.length);
+  }
+
+  writeTag(bytes, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      writeSample(view, offset, channelData[channel][frame], sampleFormat, bitsPerSample);
+      offset += bytesPerSample;
+    }
+  }
+
+  return bytes;
+}
+
+// Length of decoded audio in milliseconds
+export function wavDurationMillis(audio: WavAudio) {
+  const frames = audio.channelData[0]?.length ?? 0;
+  return audio.sampleRate > 0 ? Math.round((frames / audio.sampleRate) * 1000) : 0;
+}